@@ -0,0 +1,7 @@
+import { proxyRequest } from "@/lib/backend-proxy";
+
+export const dynamic = "force-dynamic";
+
+export function GET(request: Request): Promise<Response> {
+  return proxyRequest(request, "/health");
+}
@@ -0,0 +1,20 @@
+import { proxyError, proxyRequest } from "@/lib/backend-proxy";
+
+export const dynamic = "force-dynamic";
+
+// Backend routes the browser is allowed to reach through the proxy
+const PROXIED_RESOURCES = new Set(["sessions", "chat", "opportunities", "ai"]);
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+async function handle(request: Request, { params }: RouteContext): Promise<Response> {
+  const { path } = await params;
+  if (!PROXIED_RESOURCES.has(path[0])) {
+    return proxyError(404, "not_found", `No API route for /api/v1/${path.join("/")}`);
+  }
+  return proxyRequest(request, `/api/v1/${path.map(encodeURIComponent).join("/")}`);
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE };
@@ -1,14 +1,35 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useSyncExternalStore } from "react";
 import Link from "next/link";
 import dynamic from "next/dynamic";
-import { useParams } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar } from "@/components/ui/avatar";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import ChatMarkdown from "@/components/ChatMarkdown";
+import { streamChat, toChatHistory } from "@/lib/chat-stream";
+import { getLarryMessageText, parseLarryResponse } from "@/lib/larry-metadata";
+import { api, describeRejection, isApiError } from "@/lib/api-client";
+import { getConnectionMessage, onBackendReachable } from "@/lib/connection-status";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import type { Opportunity } from "@/lib/schemas";
+import { getActivePath, getSiblings, selectBranch, type BranchSelection } from "@/lib/conversation-tree";
+import MessageActions from "@/components/MessageActions";
+import OpportunityEditor from "@/components/OpportunityEditor";
+import OpportunityActionDialog, { type PendingOpportunityAction } from "@/components/OpportunityActionDialog";
+import UndoToast, { useUndoToast } from "@/components/UndoToast";
+import { deleteOpportunity, updateOpportunity, type OpportunityPatch } from "@/lib/opportunities";
+import { STATUS_COLORS, archiveStatus, restoreStatus } from "@/lib/opportunity-status";
+import {
+  getOpportunityActivity,
+  getServerOpportunityActivity,
+  recordDeepDive,
+  saveOpportunityNotes,
+  subscribeOpportunityActivity,
+} from "@/lib/opportunity-activity";
 
 // Dynamically import AI components
 const SmartChatInput = dynamic(() => import("@/components/SmartChatInput"), {
@@ -26,24 +47,9 @@ const OpportunityNotes = dynamic(() => import("@/components/OpportunityNotes"),
   loading: () => <div className="h-48 bg-slate-100 dark:bg-slate-800 rounded animate-pulse" />,
 });
 
-interface Opportunity {
-  id: string;
-  name: string;
-  description: string;
-  problem_statement?: string;
-  target_audience?: string;
-  domains: string[];
-  csio_score?: number;
-  priority: string;
-  status: string;
-  tags: string[];
-  created_at: string;
-  updated_at: string;
-  deep_dive_count: number;
-}
-
 interface Message {
   id: string;
+  parentId?: string | null; // Message this one replies to
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
@@ -68,49 +74,6 @@ const FOCUS_AREAS: DeepDiveFocus[] = [
   { key: "mvp_planning", label: "MVP Planning", description: "Define minimum viable product", icon: "🛠️" },
 ];
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://mindrian-api.onrender.com";
-
-// Demo data for fallback
-const DEMO_OPPORTUNITIES: Record<string, Opportunity> = {
-  "demo-1": {
-    id: "demo-1",
-    name: "AI-Powered Recipe Generator",
-    description: "Home cooks struggle to use ingredients before they expire",
-    problem_statement: "Home cooks struggle to use ingredients before they expire",
-    target_audience: "Busy professionals who want to reduce food waste",
-    domains: ["AI", "Food Tech", "Sustainability"],
-    csio_score: 0.85,
-    priority: "high",
-    status: "exploring",
-    tags: ["AI", "Food", "Sustainability"],
-    created_at: "2024-12-15T10:00:00Z",
-    updated_at: "2024-12-17T14:30:00Z",
-    deep_dive_count: 2,
-  },
-  "demo-2": {
-    id: "demo-2",
-    name: "Mental Health Check-in Bot",
-    description: "People don't recognize early signs of burnout",
-    problem_statement: "People don't recognize early signs of burnout",
-    target_audience: "Remote workers in high-stress industries",
-    domains: ["Health Tech", "AI", "HR"],
-    csio_score: 0.92,
-    priority: "high",
-    status: "validated",
-    tags: ["Health", "AI", "HR Tech"],
-    created_at: "2024-12-10T09:00:00Z",
-    updated_at: "2024-12-18T11:00:00Z",
-    deep_dive_count: 5,
-  },
-};
-
-const statusColors: Record<string, string> = {
-  exploring: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
-  validated: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
-  parked: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
-  archived: "bg-gray-100 text-gray-700 dark:bg-gray-900 dark:text-gray-300",
-};
-
 const priorityColors: Record<string, string> = {
   high: "text-red-600",
   medium: "text-yellow-600",
@@ -119,23 +82,45 @@ const priorityColors: Record<string, string> = {
 
 export default function DeepDivePage() {
   const params = useParams();
+  const router = useRouter();
   const opportunityId = params.id as string;
 
   const [opportunity, setOpportunity] = useState<Opportunity | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pendingSaves, setPendingSaves] = useState(0);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingOpportunityAction | null>(null);
+  const { toast, showToast, undo, dismiss } = useUndoToast();
   const [selectedFocus, setSelectedFocus] = useState<string | null>(null);
+  const activity = useSyncExternalStore(
+    subscribeOpportunityActivity,
+    getOpportunityActivity,
+    getServerOpportunityActivity
+  );
   const [messages, setMessages] = useState<Message[]>([]);
+  const [branches, setBranches] = useState<BranchSelection>({});
   const [input, setInput] = useState("");
   const [isDeepDiving, setIsDeepDiving] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string>("");
+  const [reloadKey, setReloadKey] = useState(0);
   const [activeTab, setActiveTab] = useState<"chat" | "diagram" | "notes">("chat");
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    fetchOpportunity();
-    initSession();
-  }, [opportunityId]);
+    const controller = new AbortController();
+    fetchOpportunity(controller.signal);
+    initSession(controller.signal);
+    return () => controller.abort();
+  }, [opportunityId, reloadKey]);
+
+  // Reload once the backend is reachable instead of staying on offline data
+  useEffect(() => {
+    if (!error) return;
+    return onBackendReachable(() => setReloadKey((key) => key + 1));
+  }, [error]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -143,38 +128,106 @@ export default function DeepDivePage() {
     }
   }, [messages]);
 
-  const initSession = async () => {
+  const initSession = async (signal?: AbortSignal) => {
     try {
-      const response = await fetch(`${API_URL}/api/v1/sessions`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ agent_type: "larry" }),
-      });
-      const data = await response.json();
-      setSessionId(data.session_id);
+      const data = await api.sessions.create({ agent_type: "larry" }, signal);
+      setSessionId(data.session_id || `local-${Date.now()}`);
     } catch (error) {
+      if (signal?.aborted) return;
       console.error("Failed to create session:", error);
       setSessionId(`local-${Date.now()}`);
     }
   };
 
-  const fetchOpportunity = async () => {
+  const fetchOpportunity = async (signal?: AbortSignal) => {
     try {
-      const response = await fetch(`${API_URL}/api/v1/opportunities/${opportunityId}`);
-      if (!response.ok) throw new Error("Failed to fetch opportunity");
-      const data = await response.json();
+      const data = await api.opportunities.get(opportunityId, signal);
       setOpportunity(data);
+      setError(null);
     } catch (err) {
+      if (signal?.aborted) return; // Left the page or switched opportunity
       console.error("Error fetching opportunity:", err);
-      // Use demo data if available
-      if (DEMO_OPPORTUNITIES[opportunityId]) {
-        setOpportunity(DEMO_OPPORTUNITIES[opportunityId]);
-        setError("Using demo data - server might be starting up");
+      // Use the offline copy if there is one
+      const { getOfflineOpportunity } = await import("@/lib/mock-backend");
+      const offlineCopy = isApiError(err) && err.status === 404 ? undefined : getOfflineOpportunity(opportunityId);
+      if (offlineCopy) {
+        setOpportunity(offlineCopy);
+        setError("Using offline data until the server is reachable");
       } else {
-        setError("Opportunity not found");
+        setError(
+          isApiError(err) && err.kind === "schema"
+            ? err.message
+            : "Opportunity not found"
+        );
       }
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  };
+
+  /**
+   * Optimistic update - show the change at once, then keep the saved copy or roll back
+   * Only the patched fields are touched so overlapping edits to other fields survive
+   * Pass `rollback` when this render's copy may be out of date (undo runs from an older render)
+   */
+  const saveOpportunity = async (patch: OpportunityPatch, rollback?: OpportunityPatch): Promise<boolean> => {
+    if (!opportunity) return false;
+    const fields = Object.keys(patch) as Array<keyof OpportunityPatch>;
+    const previous = rollback ?? pickFields(opportunity, fields);
+
+    setOpportunity((current) => (current ? { ...current, ...patch } : current));
+    setSaveError(null);
+    setPendingSaves((count) => count + 1);
+    try {
+      const saved = await updateOpportunity(opportunity.id, patch);
+      setOpportunity((current) =>
+        current ? { ...current, ...pickFields(saved, fields), updated_at: saved.updated_at } : current
+      );
+      return true;
+    } catch (err) {
+      console.error("Failed to save opportunity:", err);
+      setOpportunity((current) => (current ? { ...current, ...previous } : current));
+      setSaveError(
+        isApiError(err) && err.kind === "http" && (err.status ?? 0) < 500
+          ? `The server rejected the change: ${describeRejection(err.body) ?? err.message}`
+          : `Couldn't save - your change was undone. ${getConnectionMessage()}`
+      );
+      return false;
+    } finally {
+      setPendingSaves((count) => count - 1);
+    }
+  };
+
+  const handleConfirmAction = async ({ action, opportunity: target }: PendingOpportunityAction) => {
+    setPendingAction(null);
+
+    if (action === "delete") {
+      // The DELETE only goes out once the undo window closes
+      showToast({
+        message: `Deleting "${target.name}"`,
+        onUndo: () => {},
+        onCommit: () => {
+          deleteOpportunity(target.id)
+            .then(() => {
+              // Leave the page unless the user already has
+              if (window.location.pathname === `/opportunities/${target.id}`) router.replace("/opportunities");
+            })
+            .catch((err) => {
+              console.error("Failed to delete opportunity:", err);
+              setSaveError(`Couldn't delete "${target.name}". Please try again.`);
+            });
+        },
+      });
+      return;
+    }
+
+    const patch = action === "archive" ? archiveStatus(target) : restoreStatus(target);
+    const rollback = { status: target.status, status_history: target.status_history ?? [] };
+    if (await saveOpportunity(patch)) {
+      showToast({
+        message: action === "archive" ? `Archived "${target.name}"` : `Restored "${target.name}"`,
+        onUndo: () => saveOpportunity(rollback, patch),
+      });
     }
   };
 
@@ -189,26 +242,25 @@ export default function DeepDivePage() {
     // Add initial message
     const startMessage: Message = {
       id: `system-${Date.now()}`,
+      parentId: null,
       role: "assistant",
       content: `Starting deep dive into "${opportunity.name}" with focus on: ${focusArea?.label}\n\nI'll analyze this opportunity and help you explore ${focusArea?.description.toLowerCase()}.`,
       timestamp: new Date(),
     };
     setMessages([startMessage]);
+    setBranches({});
 
     try {
-      const response = await fetch(`${API_URL}/api/v1/opportunities/${opportunityId}/deep-dive`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          opportunity_id: opportunityId,
-          focus: focusKey,
-        }),
+      const data = await api.opportunities.deepDive(opportunityId, focusKey);
+      recordDeepDive(opportunityId, {
+        focus: focusArea?.label ?? focusKey,
+        summary: data.result,
+        insights: data.insights,
       });
 
-      const data = await response.json();
-
       const resultMessage: Message = {
         id: `result-${Date.now()}`,
+        parentId: startMessage.id,
         role: "assistant",
         content: data.result || "Deep dive analysis completed. What questions do you have?",
         timestamp: new Date(),
@@ -219,8 +271,9 @@ export default function DeepDivePage() {
       if (data.insights && data.insights.length > 0) {
         const insightsMessage: Message = {
           id: `insights-${Date.now()}`,
+          parentId: resultMessage.id,
           role: "assistant",
-          content: `**Key Insights:**\n${data.insights.map((i: string) => `• ${i}`).join('\n')}`,
+          content: `**Key Insights:**\n\n${data.insights.map((i: string) => `- ${i}`).join('\n')}`,
           timestamp: new Date(),
         };
         setMessages(prev => [...prev, insightsMessage]);
@@ -230,8 +283,9 @@ export default function DeepDivePage() {
       console.error("Deep dive failed:", err);
       const errorMessage: Message = {
         id: `error-${Date.now()}`,
+        parentId: startMessage.id,
         role: "assistant",
-        content: `I'm ready to help you explore ${focusArea?.label.toLowerCase()}. The server might be warming up, but you can still ask me questions about this opportunity.`,
+        content: `I'm ready to help you explore ${focusArea?.label.toLowerCase()}. I couldn't run the analysis just now, but you can still ask me questions about this opportunity.`,
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, errorMessage]);
@@ -240,54 +294,105 @@ export default function DeepDivePage() {
     setIsDeepDiving(false);
   };
 
+  // Only the selected branch is shown and sent as context
+  const activeMessages = getActivePath(messages, branches);
+  const lastMessage = activeMessages[activeMessages.length - 1];
+  const regenerableId =
+    lastMessage?.role === "assistant" && activeMessages[activeMessages.length - 2]?.role === "user"
+      ? lastMessage.id
+      : null;
+
   const sendMessage = async () => {
     if (!input.trim() || isDeepDiving) return;
+    const text = input;
+    setInput("");
+    await askLarry(text, lastMessage?.id ?? null, activeMessages);
+  };
 
+  const editMessage = (message: Message, text: string) => {
+    if (isDeepDiving) return;
+    const index = activeMessages.findIndex((m) => m.id === message.id);
+    askLarry(text, message.parentId ?? null, activeMessages.slice(0, index));
+  };
+
+  const regenerateReply = (message: Message) => {
+    if (isDeepDiving) return;
+    const index = activeMessages.findIndex((m) => m.id === message.id);
+    const userMessage = activeMessages[index - 1];
+    if (userMessage?.role !== "user") return;
+    requestReply(userMessage, activeMessages.slice(0, index - 1));
+  };
+
+  const handleSelectBranch = (message: Message, index: number) => {
+    const target = getSiblings(messages, message).siblings[index];
+    if (target) setBranches(prev => selectBranch(prev, target));
+  };
+
+  const askLarry = async (text: string, parentId: string | null, history: Message[]) => {
     const userMessage: Message = {
       id: `user-${Date.now()}`,
+      parentId,
       role: "user",
-      content: input,
+      content: text,
       timestamp: new Date(),
     };
 
     setMessages(prev => [...prev, userMessage]);
-    setInput("");
+    await requestReply(userMessage, history);
+  };
+
+  const requestReply = async (userMessage: Message, history: Message[]) => {
+    const assistantId = `assistant-${Date.now()}`;
+    const assistantMessage: Message = {
+      id: assistantId,
+      parentId: userMessage.id,
+      role: "assistant",
+      content: "",
+      timestamp: new Date(),
+    };
+
+    setMessages(prev => [...prev, assistantMessage]);
+    setBranches(prev => selectBranch(selectBranch(prev, userMessage), assistantMessage));
     setIsDeepDiving(true);
+    setStreamingId(assistantId);
 
-    try {
-      const response = await fetch(`${API_URL}/api/v1/chat`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          session_id: sessionId,
-          message: `[Deep Dive Context: "${opportunity?.name}" - Focus: ${selectedFocus}]\n\n${input}`,
-        }),
-      });
+    const updateAssistant = (content: string) => {
+      setMessages(prev => prev.map(m => (m.id === assistantId ? { ...m, content } : m)));
+    };
 
-      const data = await response.json();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        role: "assistant",
-        content: data.response || "Let me think about that...",
-        timestamp: new Date(),
-      };
+    try {
+      const result = await streamChat({
+        sessionId,
+        message: `[Deep Dive Context: "${opportunity?.name}" - Focus: ${selectedFocus}]\n\n${userMessage.content}`,
+        history: toChatHistory(history),
+        signal: controller.signal,
+        // Larry's metadata block is for the home session panel - only the message is shown here
+        onToken: (_token, fullText) => updateAssistant(getLarryMessageText(fullText)),
+      });
 
-      setMessages(prev => [...prev, assistantMessage]);
+      if (result.aborted) {
+        // A stopped reply is cut off mid-stream, so it is trimmed like one
+        updateAssistant(getLarryMessageText(result.text) || "_Stopped._");
+      } else {
+        updateAssistant(parseLarryResponse(result.text, result.metadata).message || "Let me think about that...");
+      }
     } catch (error) {
       console.error("Failed to send message:", error);
-      const errorMessage: Message = {
-        id: `error-${Date.now()}`,
-        role: "assistant",
-        content: "Sorry, I had trouble connecting. Try again in a moment.",
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      updateAssistant(`Sorry, I couldn't get a reply. ${getConnectionMessage()}`);
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsDeepDiving(false);
     }
   };
 
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 flex items-center justify-center">
@@ -329,17 +434,43 @@ export default function DeepDivePage() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <span className={`text-xs px-2 py-1 rounded-full ${statusColors[opportunity.status]}`}>
+            <span className={`text-xs px-2 py-1 rounded-full ${STATUS_COLORS[opportunity.status]}`}>
               {opportunity.status}
             </span>
             <span className={`text-xs px-2 py-1 ${priorityColors[opportunity.priority]}`}>
               {opportunity.priority} priority
             </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-slate-500"
+              onClick={() =>
+                setPendingAction({ action: opportunity.status === "archived" ? "restore" : "archive", opportunity })
+              }
+            >
+              {opportunity.status === "archived" ? "Restore" : "Archive"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:text-red-700"
+              onClick={() => setPendingAction({ action: "delete", opportunity })}
+            >
+              Delete
+            </Button>
+            <ConnectionIndicator />
             <ThemeToggle />
           </div>
         </div>
       </header>
 
+      <OpportunityActionDialog
+        pending={pendingAction}
+        onConfirm={handleConfirmAction}
+        onCancel={() => setPendingAction(null)}
+      />
+      <UndoToast toast={toast} onUndo={undo} onDismiss={dismiss} />
+
       {/* Error Banner */}
       {error && (
         <div className="max-w-6xl mx-auto px-4 pt-4">
@@ -355,62 +486,12 @@ export default function DeepDivePage() {
           {/* Left: Opportunity Details & Focus Areas */}
           <div className="space-y-4">
             {/* Opportunity Card */}
-            <Card className="p-5">
-              <h2 className="font-semibold text-lg mb-3">{opportunity.name}</h2>
-
-              {opportunity.problem_statement && (
-                <div className="mb-3">
-                  <span className="text-xs text-slate-500 uppercase">Problem</span>
-                  <p className="text-sm text-slate-700 dark:text-slate-300">
-                    {opportunity.problem_statement}
-                  </p>
-                </div>
-              )}
-
-              {opportunity.target_audience && (
-                <div className="mb-3">
-                  <span className="text-xs text-slate-500 uppercase">Target Audience</span>
-                  <p className="text-sm text-slate-700 dark:text-slate-300">
-                    {opportunity.target_audience}
-                  </p>
-                </div>
-              )}
-
-              {opportunity.csio_score && (
-                <div className="mb-3">
-                  <span className="text-xs text-slate-500 uppercase">CSIO Score</span>
-                  <div className="flex items-center gap-2 mt-1">
-                    <div className="w-24 h-2 bg-slate-200 rounded-full overflow-hidden">
-                      <div
-                        className={`h-full ${
-                          opportunity.csio_score >= 0.8
-                            ? "bg-green-500"
-                            : opportunity.csio_score >= 0.5
-                            ? "bg-yellow-500"
-                            : "bg-red-500"
-                        }`}
-                        style={{ width: `${opportunity.csio_score * 100}%` }}
-                      />
-                    </div>
-                    <span className="text-sm font-medium">
-                      {Math.round(opportunity.csio_score * 100)}%
-                    </span>
-                  </div>
-                </div>
-              )}
-
-              {/* Tags */}
-              <div className="flex flex-wrap gap-1 mt-4 pt-4 border-t">
-                {opportunity.tags.map((tag) => (
-                  <span
-                    key={tag}
-                    className="text-xs px-2 py-0.5 bg-slate-100 dark:bg-slate-800 rounded text-slate-600 dark:text-slate-400"
-                  >
-                    {tag}
-                  </span>
-                ))}
-              </div>
-            </Card>
+            <OpportunityEditor
+              opportunity={opportunity}
+              onSave={saveOpportunity}
+              isSaving={pendingSaves > 0}
+              saveError={saveError}
+            />
 
             {/* Focus Areas */}
             <Card className="p-5">
@@ -487,7 +568,7 @@ export default function DeepDivePage() {
                     </div>
                   ) : (
                     <div className="space-y-4">
-                      {messages.map((message) => (
+                      {activeMessages.map((message) => (
                         <div
                           key={message.id}
                           className={`flex gap-3 ${
@@ -499,21 +580,52 @@ export default function DeepDivePage() {
                               <span className="text-sm text-white font-semibold">L</span>
                             </Avatar>
                           )}
-                          <Card
-                            className={`max-w-[80%] p-4 ${
-                              message.role === "user"
-                                ? "bg-blue-600 text-white"
-                                : "bg-white dark:bg-slate-800"
+                          <div
+                            className={`flex flex-col max-w-[80%] ${
+                              message.role === "user" ? "items-end" : "items-start"
                             }`}
                           >
-                            <p className={`text-sm leading-relaxed whitespace-pre-wrap ${
-                              message.role === "user"
-                                ? "text-white"
-                                : "text-slate-700 dark:text-slate-300"
-                            }`}>
-                              {message.content}
-                            </p>
-                          </Card>
+                            <Card
+                              className={`p-4 ${
+                                message.role === "user"
+                                  ? "bg-blue-600 text-white"
+                                  : "bg-white dark:bg-slate-800"
+                              }`}
+                            >
+                              {message.id === streamingId && !message.content ? (
+                                <div className="flex gap-1">
+                                  <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" />
+                                  <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.2s]" />
+                                  <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.4s]" />
+                                </div>
+                              ) : (
+                                <div className={
+                                  message.role === "user"
+                                    ? "text-white"
+                                    : "text-slate-700 dark:text-slate-300"
+                                }>
+                                  <ChatMarkdown content={message.content} variant={message.role} />
+                                  {message.id === streamingId && (
+                                    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse" />
+                                  )}
+                                </div>
+                              )}
+                            </Card>
+                            {message.id !== streamingId && (
+                              <MessageActions
+                                role={message.role}
+                                content={message.content}
+                                branchIndex={getSiblings(messages, message).index}
+                                branchCount={getSiblings(messages, message).siblings.length}
+                                disabled={isDeepDiving}
+                                onSelectBranch={(index) => handleSelectBranch(message, index)}
+                                onEdit={(text) => editMessage(message, text)}
+                                onRegenerate={
+                                  message.id === regenerableId ? () => regenerateReply(message) : undefined
+                                }
+                              />
+                            )}
+                          </div>
                           {message.role === "user" && (
                             <Avatar className="w-8 h-8 bg-slate-200 dark:bg-slate-700 flex items-center justify-center">
                               <span className="text-sm text-slate-600 dark:text-slate-300">U</span>
@@ -521,7 +633,7 @@ export default function DeepDivePage() {
                           )}
                         </div>
                       ))}
-                      {isDeepDiving && (
+                      {isDeepDiving && !streamingId && (
                         <div className="flex gap-3 justify-start">
                           <Avatar className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center">
                             <span className="text-sm text-white font-semibold">L</span>
@@ -546,7 +658,9 @@ export default function DeepDivePage() {
                       value={input}
                       onChange={setInput}
                       onSend={sendMessage}
+                      onStop={stopStreaming}
                       disabled={isDeepDiving}
+                      isStreaming={streamingId !== null}
                       placeholder="Ask a follow-up question..."
                       userRole={`innovation analyst exploring ${opportunity?.name || "an opportunity"}`}
                     />
@@ -569,9 +683,10 @@ export default function DeepDivePage() {
             {activeTab === "notes" && opportunity && (
               <OpportunityNotes
                 opportunityId={opportunity.id}
+                initialBlocks={activity.notes[opportunity.id]?.blocks}
                 onSave={(blocks) => {
-                  console.log("Saving notes:", blocks);
-                  // TODO: Save to backend
+                  // Notes are stored in this browser only - the backend has no notes endpoint
+                  saveOpportunityNotes(opportunity.id, blocks);
                 }}
               />
             )}
@@ -581,3 +696,7 @@ export default function DeepDivePage() {
     </div>
   );
 }
+
+function pickFields(opportunity: Opportunity, fields: Array<keyof OpportunityPatch>): OpportunityPatch {
+  return Object.fromEntries(fields.map((field) => [field, opportunity[field]]));
+}
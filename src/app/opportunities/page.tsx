@@ -1,12 +1,40 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useSyncExternalStore, Suspense } from "react";
 import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { SmartPasteResult } from "@/lib/ai-service";
+import {
+  createOpportunity,
+  deleteOpportunity,
+  opportunityFromSmartPaste,
+  updateOpportunity,
+  type OpportunityPatch,
+} from "@/lib/opportunities";
+import { STATUS_COLORS, archiveStatus, restoreStatus } from "@/lib/opportunity-status";
+import { describeBatchFailure, type BatchPlanItem, type BatchRowResult } from "@/lib/opportunity-batch";
+import {
+  DEFAULT_FILTERS,
+  applyFilters,
+  getFilterFacets,
+  parseFilterParams,
+  toFilterParams,
+  type OpportunityFilters,
+} from "@/lib/opportunity-filters";
+import OpportunityFilterBar from "@/components/OpportunityFilterBar";
+import GridViewSwitcher from "@/components/GridViewSwitcher";
+import { getGridViews, getServerGridViews, saveGridLayout, subscribeGridViews } from "@/lib/grid-views";
+import { api, describeRejection, isApiError } from "@/lib/api-client";
+import { onBackendReachable } from "@/lib/connection-status";
+import { isOfflineMode, setOfflineMode } from "@/lib/offline-mode";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import OpportunityActionDialog, { type PendingOpportunityAction } from "@/components/OpportunityActionDialog";
+import UndoToast, { useUndoToast } from "@/components/UndoToast";
+import type { Opportunity } from "@/lib/schemas";
 
 // Dynamically import Syncfusion Grid component (client-side only)
 const OpportunityGrid = dynamic(() => import("@/components/OpportunityGrid"), {
@@ -18,6 +46,13 @@ const OpportunityGrid = dynamic(() => import("@/components/OpportunityGrid"), {
   ),
 });
 
+const OpportunityBoard = dynamic(() => import("@/components/OpportunityBoard"), {
+  ssr: false,
+  loading: () => (
+    <div className="h-64 bg-slate-100 dark:bg-slate-800 rounded animate-pulse" />
+  ),
+});
+
 // Dynamically import AI-enhanced components
 const OpportunityCharts = dynamic(() => import("@/components/OpportunityCharts"), {
   ssr: false,
@@ -33,135 +68,84 @@ const SmartPasteForm = dynamic(() => import("@/components/SmartPasteForm"), {
   ),
 });
 
-interface Opportunity {
-  id: string;
-  name: string;
-  description: string;
-  problem_statement?: string;
-  target_audience?: string;
-  domains: string[];
-  csio_score?: number;
-  priority: string;
-  status: string;
-  tags: string[];
-  created_at: string;
-  updated_at: string;
-  deep_dive_count: number;
+// useSearchParams needs a Suspense boundary for static rendering
+export default function OpportunitiesPage() {
+  return (
+    <Suspense>
+      <OpportunitiesBank />
+    </Suspense>
+  );
 }
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://mindrian-api.onrender.com";
-
-// Status badge colors
-const statusColors: Record<string, string> = {
-  exploring: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
-  validated: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
-  parked: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
-  archived: "bg-gray-100 text-gray-700 dark:bg-gray-900 dark:text-gray-300",
-};
-
-// Demo data matching backend API structure
-const DEMO_DATA: Opportunity[] = [
-  {
-    id: "demo-1",
-    name: "AI-Powered Recipe Generator",
-    description: "App that suggests recipes based on ingredients you have",
-    problem_statement: "Home cooks struggle to use ingredients before they expire",
-    target_audience: "Busy professionals who want to reduce food waste",
-    domains: ["AI", "Food Tech"],
-    csio_score: 0.85,
-    priority: "high",
-    status: "exploring",
-    tags: ["AI", "Food", "Sustainability"],
-    created_at: "2024-12-15T10:00:00Z",
-    updated_at: "2024-12-17T14:30:00Z",
-    deep_dive_count: 2,
-  },
-  {
-    id: "demo-2",
-    name: "Mental Health Check-in Bot",
-    description: "AI companion that monitors wellbeing patterns",
-    problem_statement: "People don't recognize early signs of burnout",
-    target_audience: "Remote workers in high-stress industries",
-    domains: ["Health Tech", "AI"],
-    csio_score: 0.92,
-    priority: "high",
-    status: "validated",
-    tags: ["Health", "AI", "HR Tech"],
-    created_at: "2024-12-10T09:00:00Z",
-    updated_at: "2024-12-18T11:00:00Z",
-    deep_dive_count: 5,
-  },
-  {
-    id: "demo-3",
-    name: "Local Business Discovery Platform",
-    description: "Connecting local shops with community consumers",
-    problem_statement: "Small businesses struggle to compete with big chains online",
-    target_audience: "Local shop owners and community-minded consumers",
-    domains: ["E-commerce", "Local"],
-    csio_score: 0.67,
-    priority: "medium",
-    status: "parked",
-    tags: ["Local", "E-commerce", "Community"],
-    created_at: "2024-12-05T15:00:00Z",
-    updated_at: "2024-12-12T16:45:00Z",
-    deep_dive_count: 1,
-  },
-  {
-    id: "demo-4",
-    name: "Smart Home Energy Optimizer",
-    description: "Automated energy management for connected homes",
-    problem_statement: "Homeowners waste energy without realizing it",
-    target_audience: "Environmentally conscious homeowners with smart devices",
-    domains: ["IoT", "CleanTech"],
-    csio_score: 0.78,
-    priority: "medium",
-    status: "exploring",
-    tags: ["IoT", "Sustainability", "Smart Home"],
-    created_at: "2024-12-08T11:00:00Z",
-    updated_at: "2024-12-16T09:30:00Z",
-    deep_dive_count: 0,
-  },
-  {
-    id: "demo-5",
-    name: "Freelancer Tax Assistant",
-    description: "AI-powered tax optimization for self-employed",
-    problem_statement: "Freelancers miss deductions and overpay taxes",
-    target_audience: "Independent contractors and gig workers",
-    domains: ["FinTech", "AI"],
-    csio_score: 0.88,
-    priority: "high",
-    status: "validated",
-    tags: ["FinTech", "AI", "Productivity"],
-    created_at: "2024-11-28T14:00:00Z",
-    updated_at: "2024-12-18T10:00:00Z",
-    deep_dive_count: 3,
-  },
-];
-
-export default function OpportunitiesPage() {
+function OpportunitiesBank() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<"cards" | "table">("cards");
+  const [dataIssues, setDataIssues] = useState<string[]>([]);
+  const [viewMode, setViewMode] = useState<"cards" | "table" | "board">("cards");
   const [showSmartPaste, setShowSmartPaste] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
   const [showCharts, setShowCharts] = useState(true);
+  const [listView, setListView] = useState<"active" | "archived">("active");
+  const [pendingAction, setPendingAction] = useState<PendingOpportunityAction | null>(null);
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { toast, showToast, undo, dismiss } = useUndoToast();
+  const gridViews = useSyncExternalStore(subscribeGridViews, getGridViews, getServerGridViews);
+
+  // Archived and soon-to-be-deleted opportunities stay out of the main list and analytics
+  const visibleOpportunities = opportunities.filter((o) => !pendingDeleteIds.includes(o.id));
+  const activeOpportunities = visibleOpportunities.filter((o) => o.status !== "archived");
+  const archivedOpportunities = visibleOpportunities.filter((o) => o.status === "archived");
+  // The board has its own archived column, so it always shows everything
+  const showArchivedList = viewMode !== "board" && listView === "archived";
+  const listedOpportunities =
+    viewMode === "board" ? visibleOpportunities : showArchivedList ? archivedOpportunities : activeOpportunities;
+
+  // The URL is the source of truth for filters so a filtered view can be shared as a link
+  const filters = useMemo(() => parseFilterParams(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const facets = getFilterFacets(listedOpportunities);
+  const filteredListed = applyFilters(listedOpportunities, filters);
+  const filteredActive = applyFilters(activeOpportunities, filters);
+
+  const setFilters = (next: OpportunityFilters) => {
+    const query = toFilterParams(next, new URLSearchParams(searchParams.toString())).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
 
   useEffect(() => {
-    fetchOpportunities();
+    const controller = new AbortController();
+    fetchOpportunities(controller.signal);
+    return () => controller.abort();
   }, []);
 
-  const fetchOpportunities = async () => {
+  // Swap offline data for the real list as soon as the backend answers
+  useEffect(() => {
+    if (!error) return;
+    return onBackendReachable(() => fetchOpportunities());
+  }, [error]);
+
+  const fetchOpportunities = async (signal?: AbortSignal) => {
     try {
-      const response = await fetch(`${API_URL}/api/v1/opportunities`);
-      if (!response.ok) throw new Error("Failed to fetch opportunities");
-      const data = await response.json();
-      setOpportunities(data.opportunities || []);
+      const data = await api.opportunities.list(signal);
+      setOpportunities(data.opportunities);
+      setDataIssues(data.issues);
+      setError(null);
     } catch (err) {
+      if (signal?.aborted) return; // Left the page
       console.error("Error fetching opportunities:", err);
-      setError("Could not load opportunities. The server might be starting up.");
-      setOpportunities(DEMO_DATA);
+      setError(
+        isApiError(err) && err.kind === "schema"
+          ? err.message
+          : "Could not load opportunities - they'll load automatically once the server is reachable."
+      );
+      const { listOfflineOpportunities } = await import("@/lib/mock-backend");
+      setOpportunities(listOfflineOpportunities());
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
   };
 
@@ -173,28 +157,20 @@ export default function OpportunitiesPage() {
 
   // Handle smart paste opportunity creation
   const handleSmartPasteCreate = async (data: SmartPasteResult) => {
+    setCreateError(null);
     try {
-      const response = await fetch(`${API_URL}/api/v1/opportunities`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          name: data.title,
-          description: data.description,
-          problem_statement: data.problem_statement,
-          target_audience: data.target_audience,
-          tags: data.tags || [],
-          priority: data.priority || "medium",
-          status: "exploring",
-        }),
-      });
-
-      if (response.ok) {
-        setShowSmartPaste(false);
-        fetchOpportunities(); // Refresh the list
-      }
+      await createOpportunity(opportunityFromSmartPaste(data));
+      setShowSmartPaste(false);
+      fetchOpportunities(); // Refresh the list
     } catch (error) {
       console.error("Failed to create opportunity:", error);
-      // Add to local state as fallback
+      if (!isApiError(error) || (error.kind !== "network" && error.kind !== "timeout")) {
+        // The server said no - keep the form open so the draft isn't lost
+        const reason = isApiError(error) ? describeRejection(error.body) ?? error.message : String(error);
+        setCreateError(`Couldn't create the opportunity: ${reason}`);
+        return;
+      }
+      // Backend unreachable - add to local state as fallback
       const newOpp: Opportunity = {
         id: `local-${Date.now()}`,
         name: data.title || "New Opportunity",
@@ -214,6 +190,99 @@ export default function OpportunitiesPage() {
     }
   };
 
+  /**
+   * Optimistic status change with rollback
+   */
+  const applyPatch = async (id: string, patch: OpportunityPatch, rollback: OpportunityPatch, failure: string) => {
+    setOpportunities((prev) => prev.map((o) => (o.id === id ? { ...o, ...patch } : o)));
+    setActionError(null);
+    try {
+      const saved = await updateOpportunity(id, patch);
+      setOpportunities((prev) => prev.map((o) => (o.id === id ? saved : o)));
+      return true;
+    } catch (err) {
+      console.error("Failed to update opportunity:", err);
+      setOpportunities((prev) => prev.map((o) => (o.id === id ? { ...o, ...rollback } : o)));
+      setActionError(failure);
+      return false;
+    }
+  };
+
+  const handleConfirmAction = async ({ action, opportunity }: PendingOpportunityAction) => {
+    setPendingAction(null);
+    const { id, name } = opportunity;
+
+    if (action === "delete") {
+      // The DELETE only goes out once the undo window closes
+      setPendingDeleteIds((ids) => [...ids, id]);
+      showToast({
+        message: `Deleted "${name}"`,
+        onUndo: () => setPendingDeleteIds((ids) => ids.filter((pendingId) => pendingId !== id)),
+        onCommit: () => {
+          deleteOpportunity(id)
+            .then(() => setOpportunities((prev) => prev.filter((o) => o.id !== id)))
+            .catch((err) => {
+              console.error("Failed to delete opportunity:", err);
+              setActionError(`Couldn't delete "${name}" - it's back in the list.`);
+            })
+            .finally(() => setPendingDeleteIds((ids) => ids.filter((pendingId) => pendingId !== id)));
+        },
+      });
+      return;
+    }
+
+    const patch = action === "archive" ? archiveStatus(opportunity) : restoreStatus(opportunity);
+    const rollback = { status: opportunity.status, status_history: opportunity.status_history ?? [] };
+    const verb = action === "archive" ? "archive" : "restore";
+    if (await applyPatch(id, patch, rollback, `Couldn't ${verb} "${name}". Please try again.`)) {
+      showToast({
+        message: action === "archive" ? `Archived "${name}"` : `Restored "${name}"`,
+        onUndo: () => applyPatch(id, rollback, patch, `Couldn't undo - "${name}" is still ${patch.status}.`),
+      });
+    }
+  };
+
+  const handleBoardMove = async (opportunity: Opportunity, patch: OpportunityPatch) => {
+    const { id, name } = opportunity;
+    const rollback = { status: opportunity.status, status_history: opportunity.status_history ?? [] };
+    const moved = await applyPatch(id, patch, rollback, `Couldn't move "${name}" - it's back in ${opportunity.status}.`);
+    if (moved) {
+      showToast({
+        message: `Moved "${name}" to ${patch.status}`,
+        onUndo: () => applyPatch(id, rollback, patch, `Couldn't undo - "${name}" is still ${patch.status}.`),
+      });
+    }
+    return moved;
+  };
+
+  /**
+   * Save planned edits for many rows - each row saves and rolls back on its own
+   */
+  const handleSavePlan = async (plan: BatchPlanItem[]): Promise<BatchRowResult[]> => {
+    const patches = new Map(plan.flatMap((item) => (item.ok ? [[item.opportunity.id, item.patch] as const] : [])));
+    setOpportunities((prev) => prev.map((o) => (patches.has(o.id) ? { ...o, ...patches.get(o.id) } : o)));
+    setActionError(null);
+
+    return Promise.all(
+      plan.map(async (item): Promise<BatchRowResult> => {
+        const { id, name } = item.opportunity;
+        if (!item.ok) return { id, name, ok: false, error: item.error };
+        try {
+          const saved = await updateOpportunity(id, item.patch);
+          setOpportunities((prev) => prev.map((o) => (o.id === id ? saved : o)));
+          return { id, name, ok: true };
+        } catch (err) {
+          console.error("Failed to update opportunity:", err);
+          setOpportunities((prev) => prev.map((o) => (o.id === id ? { ...o, ...item.rollback } : o)));
+          return { id, name, ok: false, error: describeBatchFailure(err) };
+        }
+      })
+    );
+  };
+
+  const requestAction = (action: PendingOpportunityAction["action"], opportunity: Opportunity) =>
+    setPendingAction({ action, opportunity });
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
       {/* Header */}
@@ -257,6 +326,16 @@ export default function OpportunitiesPage() {
               >
                 Table
               </button>
+              <button
+                onClick={() => setViewMode("board")}
+                className={`px-3 py-1.5 text-sm transition-colors ${
+                  viewMode === "board"
+                    ? "bg-blue-600 text-white"
+                    : "bg-white text-slate-600 hover:bg-slate-50"
+                }`}
+              >
+                Board
+              </button>
             </div>
             <Button
               variant={showCharts ? "default" : "outline"}
@@ -270,6 +349,7 @@ export default function OpportunitiesPage() {
                 Back to Chat
               </Button>
             </Link>
+            <ConnectionIndicator />
             <ThemeToggle />
             <Button
               size="sm"
@@ -289,46 +369,61 @@ export default function OpportunitiesPage() {
       {showSmartPaste && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="max-w-2xl w-full">
+            {createError && (
+              <div className="mb-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {createError}
+              </div>
+            )}
             <SmartPasteForm
               onOpportunityCreated={handleSmartPasteCreate}
-              onCancel={() => setShowSmartPaste(false)}
+              onCancel={() => {
+                setShowSmartPaste(false);
+                setCreateError(null);
+              }}
             />
           </div>
         </div>
       )}
 
+      <OpportunityActionDialog
+        pending={pendingAction}
+        onConfirm={handleConfirmAction}
+        onCancel={() => setPendingAction(null)}
+      />
+      <UndoToast toast={toast} onUndo={undo} onDismiss={dismiss} />
+
       {/* Main Content */}
       <main className="max-w-6xl mx-auto px-4 py-8">
         {/* AI Analytics Dashboard */}
-        {showCharts && opportunities.length > 0 && (
+        {showCharts && filteredActive.length > 0 && (
           <div className="mb-8">
-            <OpportunityCharts opportunities={opportunities} />
+            <OpportunityCharts opportunities={filteredActive} />
           </div>
         )}
 
         {/* Stats Row */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
           <Card className="p-4 text-center">
-            <div className="text-3xl font-bold text-blue-600">{opportunities.length}</div>
+            <div className="text-3xl font-bold text-blue-600">{activeOpportunities.length}</div>
             <div className="text-sm text-slate-500">Total Ideas</div>
           </Card>
           <Card className="p-4 text-center">
             <div className="text-3xl font-bold text-green-600">
-              {opportunities.filter((o) => o.status === "validated").length}
+              {activeOpportunities.filter((o) => o.status === "validated").length}
             </div>
             <div className="text-sm text-slate-500">Validated</div>
           </Card>
           <Card className="p-4 text-center">
             <div className="text-3xl font-bold text-yellow-600">
-              {opportunities.filter((o) => o.status === "exploring").length}
+              {activeOpportunities.filter((o) => o.status === "exploring").length}
             </div>
             <div className="text-sm text-slate-500">Exploring</div>
           </Card>
           <Card className="p-4 text-center">
             <div className="text-3xl font-bold text-purple-600">
               {Math.round(
-                (opportunities.reduce((sum, o) => sum + (o.csio_score || 0), 0) /
-                  opportunities.length) *
+                (activeOpportunities.reduce((sum, o) => sum + (o.csio_score || 0), 0) /
+                  activeOpportunities.length) *
                   100
               ) || 0}%
             </div>
@@ -339,24 +434,98 @@ export default function OpportunitiesPage() {
         {/* Error Message */}
         {error && (
           <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-700 text-sm">
-            {error} (Showing demo data)
+            {error} (Showing offline data)
+            {!isOfflineMode() && (
+              <button
+                onClick={() => {
+                  setOfflineMode(true);
+                  window.location.reload();
+                }}
+                className="ml-2 underline font-medium"
+              >
+                Use offline mode
+              </button>
+            )}
           </div>
         )}
 
+        {actionError && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-center justify-between">
+            {actionError}
+            <button onClick={() => setActionError(null)} className="ml-2 font-medium">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Rows skipped by schema validation */}
+        {dataIssues.length > 0 && (
+          <div className="mb-4 p-4 bg-orange-50 border border-orange-200 rounded-lg text-orange-700 text-sm">
+            Some opportunities from the server were incomplete and aren&apos;t shown:
+            <ul className="mt-1 ml-5 list-disc">
+              {dataIssues.slice(0, 5).map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+            {dataIssues.length > 5 && <p className="mt-1">...and {dataIssues.length - 5} more</p>}
+          </div>
+        )}
+
+        {/* Active / Archived */}
+        <div className={`flex gap-1 mb-4 text-sm ${viewMode === "board" ? "hidden" : ""}`}>
+          {(["active", "archived"] as const).map((view) => (
+            <button
+              key={view}
+              onClick={() => setListView(view)}
+              className={`px-3 py-1.5 rounded-md transition-colors ${
+                listView === view
+                  ? "bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900"
+                  : "text-slate-600 hover:bg-slate-200 dark:text-slate-400 dark:hover:bg-slate-800"
+              }`}
+            >
+              {view === "active" ? "Active" : "Archived"} (
+              {view === "active" ? activeOpportunities.length : archivedOpportunities.length})
+            </button>
+          ))}
+        </div>
+
+        {/* Search, filters and sort - shared by cards, table and charts */}
+        <OpportunityFilterBar
+          filters={filters}
+          facets={facets}
+          resultCount={filteredListed.length}
+          totalCount={listedOpportunities.length}
+          onChange={setFilters}
+        />
+
         {/* Loading State */}
         {isLoading ? (
           <div className="flex justify-center py-12">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
+        ) : viewMode === "board" ? (
+          /* Pipeline Board */
+          <OpportunityBoard opportunities={filteredListed} onMove={handleBoardMove} />
         ) : viewMode === "table" ? (
           /* Syncfusion DataGrid View */
           <Card className="p-4 overflow-hidden">
-            <OpportunityGrid data={opportunities} />
+            <GridViewSwitcher
+              filters={filters}
+              onApplyView={(view) => setFilters(parseFilterParams(new URLSearchParams(view.filters)))}
+            />
+            <OpportunityGrid
+              key={gridViews.revision}
+              data={filteredListed}
+              onAction={requestAction}
+              onSave={handleSavePlan}
+              layout={gridViews.layout}
+              onLayoutChange={saveGridLayout}
+            />
           </Card>
         ) : (
           /* Card View */
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {opportunities.map((opp) => (
+            {filteredListed.map((opp) => (
               <Card
                 key={opp.id}
                 className="p-5 hover:shadow-lg transition-shadow cursor-pointer group"
@@ -367,7 +536,7 @@ export default function OpportunitiesPage() {
                     {opp.name}
                   </h3>
                   <span
-                    className={`text-xs px-2 py-1 rounded-full ${statusColors[opp.status] || "bg-gray-100 text-gray-700"}`}
+                    className={`text-xs px-2 py-1 rounded-full ${STATUS_COLORS[opp.status] || "bg-gray-100 text-gray-700"}`}
                   >
                     {opp.status}
                   </span>
@@ -444,13 +613,46 @@ export default function OpportunitiesPage() {
                     </Button>
                   </Link>
                 </div>
+
+                {/* Archive / Restore / Delete */}
+                <div className="flex justify-end gap-1 mt-2 pt-2 border-t opacity-60 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-slate-500"
+                    onClick={() => requestAction(opp.status === "archived" ? "restore" : "archive", opp)}
+                  >
+                    {opp.status === "archived" ? "Restore" : "Archive"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-red-600 hover:text-red-700"
+                    onClick={() => requestAction("delete", opp)}
+                  >
+                    Delete
+                  </Button>
+                </div>
               </Card>
             ))}
           </div>
         )}
 
         {/* Empty State */}
-        {!isLoading && opportunities.length === 0 && (
+        {!isLoading && listedOpportunities.length > 0 && filteredListed.length === 0 && (
+          <Card className="p-12 text-center text-slate-500">
+            No opportunities match these filters.
+            <button onClick={() => setFilters({ ...DEFAULT_FILTERS, sort: filters.sort })} className="ml-1 text-blue-600 hover:underline">
+              Clear filters
+            </button>
+          </Card>
+        )}
+        {!isLoading && showArchivedList && archivedOpportunities.length === 0 && (
+          <Card className="p-12 text-center text-slate-500">
+            Nothing archived. Archived opportunities are kept here, out of the main list and analytics.
+          </Card>
+        )}
+        {!isLoading && !showArchivedList && listedOpportunities.length === 0 && (
           <Card className="p-12 text-center">
             <div className="w-16 h-16 rounded-full bg-slate-100 mx-auto mb-4 flex items-center justify-center">
               <span className="text-2xl">💡</span>
@@ -1,13 +1,15 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, Suspense } from "react";
 import Link from "next/link";
 import dynamic from "next/dynamic";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar } from "@/components/ui/avatar";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import ChatMarkdown from "@/components/ChatMarkdown";
 
 // Dynamically import components (client-side only)
 const SmartChatInput = dynamic(() => import("@/components/SmartChatInput"), {
@@ -22,11 +24,57 @@ const LarrySessionPanel = dynamic(
   { ssr: false }
 );
 
+const SessionSidebar = dynamic(() => import("@/components/SessionSidebar"), {
+  ssr: false,
+});
+
+const SmartPasteForm = dynamic(() => import("@/components/SmartPasteForm"), {
+  ssr: false,
+  loading: () => (
+    <div className="h-48 bg-slate-100 dark:bg-slate-800 rounded animate-pulse" />
+  ),
+});
+
 // Import parser separately
-import { parseLarryResponse } from "@/components/LarrySessionPanel";
+import { parseLarryResponse, getLarryMessageText } from "@/components/LarrySessionPanel";
+import { DEFAULT_CLARITY, DEFAULT_STATS, type ClaritySnapshot } from "@/lib/larry-metadata";
+import {
+  reconcileParkedIdeas,
+  restoreParkedIdeas,
+  updateParkedIdea,
+  mergeParkedIdeas,
+  type TrackedParkedIdea,
+  type ParkedIdeaUserState,
+} from "@/lib/parked-ideas";
+import { streamChat, toChatHistory } from "@/lib/chat-stream";
+import { api, isApiError } from "@/lib/api-client";
+import { getConnectionMessage } from "@/lib/connection-status";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import {
+  getActivePath,
+  getSiblings,
+  selectBranch,
+  linkLegacyMessages,
+  type BranchSelection,
+} from "@/lib/conversation-tree";
+import MessageActions from "@/components/MessageActions";
+import ExportMenu from "@/components/ExportMenu";
+import type { ConversationExport } from "@/lib/conversation-export";
+import { createOpportunity, opportunityFromSmartPaste } from "@/lib/opportunities";
+import type { SmartPasteResult } from "@/lib/ai-service";
+import {
+  loadSession,
+  loadCurrentSession,
+  saveSession,
+  deleteSession,
+  listSessions,
+  registerSessionSync,
+  type PersistedSession,
+} from "@/lib/session-store";
 
 interface Message {
   id: string;
+  parentId?: string | null; // Message this one replies to
   role: "user" | "assistant";
   content: string;
   displayContent: string; // Clean message without metadata
@@ -45,53 +93,171 @@ interface SessionData {
     parkedIdeas: number;
     assumptionsChallenged: number;
   };
-  parkedIdeas: Array<{ id: string; text: string; timestamp: Date }>;
+  parkedIdeas: TrackedParkedIdea[]; // Includes dismissed and merged ideas
+  clarityHistory: ClaritySnapshot[];
+  branches: BranchSelection; // Which regenerated/edited version is shown at each fork
+  metadataWarning?: string; // Set when the last reply's metadata couldn't be parsed
 }
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://mindrian-api.onrender.com";
+const INITIAL_SESSION_DATA: SessionData = {
+  clarity: DEFAULT_CLARITY,
+  stats: DEFAULT_STATS,
+  parkedIdeas: [],
+  clarityHistory: [],
+  branches: {},
+};
+
+/**
+ * Create a backend session, or re-attach to an existing session_id
+ */
+async function createSession(existingSessionId?: string, signal?: AbortSignal): Promise<string> {
+  try {
+    const data = await api.sessions.create(
+      existingSessionId
+        ? { agent_type: "larry", session_id: existingSessionId }
+        : { agent_type: "larry" },
+      signal
+    );
+    return existingSessionId || data.session_id || `local-${Date.now()}`;
+  } catch (error) {
+    console.error("Failed to create session:", error);
+    return existingSessionId || `local-${Date.now()}`;
+  }
+}
+
+/**
+ * Mirror a saved session to the backend - stops syncing if the backend has nowhere to keep it
+ */
+async function syncSession(session: PersistedSession<unknown, unknown>): Promise<void> {
+  if (session.sessionId.startsWith("local-")) return; // The backend never saw this session
+  const { sessionId, messages, sessionData, updatedAt } = session as PersistedSession<Message, SessionData>;
+  try {
+    await api.sessions.save(sessionId, {
+      messages: getActivePath(messages, sessionData.branches).map((m) => ({ role: m.role, content: m.content })),
+      session_data: sessionData,
+      updated_at: updatedAt,
+    });
+  } catch (error) {
+    if (isApiError(error) && error.kind === "http" && (error.status === 404 || error.status === 405)) {
+      registerSessionSync(null);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sidebar title - the first thing the user told Larry
+ */
+function getSessionTitle(messages: Message[]): string {
+  const firstUserMessage = messages.find((m) => m.role === "user");
+  if (!firstUserMessage) return "New conversation";
+  const text = firstUserMessage.content.trim().replace(/\s+/g, " ");
+  return text.length > 60 ? `${text.substring(0, 60)}...` : text;
+}
+
+/**
+ * Clarity as of the latest Larry reply on a branch
+ */
+function getBranchClarity(clarityHistory: ClaritySnapshot[], path: Message[]) {
+  const ids = new Set(path.map((m) => m.id));
+  const latest = [...clarityHistory].reverse().find((snapshot) => ids.has(snapshot.messageId));
+  return latest?.clarity ?? DEFAULT_CLARITY;
+}
 
+// useSearchParams needs a Suspense boundary for static rendering
 export default function Home() {
+  return (
+    <Suspense>
+      <LarryChat />
+    </Suspense>
+  );
+}
+
+function LarryChat() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const urlSessionId = searchParams.get("session");
+
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string>("");
   const [showPanel, setShowPanel] = useState(true);
+  const [showSessions, setShowSessions] = useState(true);
+  const [showMobileSessions, setShowMobileSessions] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [bankingIdea, setBankingIdea] = useState<TrackedParkedIdea | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The session on screen - a reply that finishes after a switch must not write into the new one
+  const activeSessionRef = useRef("");
+  // What was read from storage - unchanged sessions aren't saved again
+  const loadedRef = useRef<{ messages: Message[]; sessionData: SessionData } | null>(null);
 
   // Session data extracted from Larry's responses
-  const [sessionData, setSessionData] = useState<SessionData>({
-    clarity: {
-      percentage: 0,
-      what: "Not yet clear",
-      who: "Not yet identified",
-      success: "Not yet defined",
-    },
-    stats: {
-      questionsAsked: 0,
-      parkedIdeas: 0,
-      assumptionsChallenged: 0,
-    },
-    parkedIdeas: [],
-  });
-
-  // Initialize session
+  const [sessionData, setSessionData] = useState<SessionData>(INITIAL_SESSION_DATA);
+
+  // Mirror saved sessions to the backend while the chat is open
+  useEffect(() => {
+    registerSessionSync(syncSession);
+    return () => registerSessionSync(null);
+  }, []);
+
+  // Load the session selected in the URL, or resume the last one
   useEffect(() => {
+    if (urlSessionId && urlSessionId === sessionId) return;
+    const controller = new AbortController();
+
     const initSession = async () => {
-      try {
-        const response = await fetch(`${API_URL}/api/v1/sessions`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ agent_type: "larry" }),
-        });
-        const data = await response.json();
-        setSessionId(data.session_id);
-      } catch (error) {
-        console.error("Failed to create session:", error);
-        setSessionId(`local-${Date.now()}`);
+      if (!urlSessionId) {
+        const current = loadCurrentSession<Message, SessionData>();
+        const nextId = current?.sessionId || (await createSession(undefined, controller.signal));
+        if (controller.signal.aborted) return;
+        router.replace(`/?session=${encodeURIComponent(nextId)}`);
+        return;
       }
+
+      // A reply still streaming belongs to the session being left
+      abortRef.current?.abort();
+      activeSessionRef.current = urlSessionId;
+
+      // Switch state in one batch so the transcript is never saved under the wrong id
+      const stored = loadSession<Message, SessionData & { bankedIdeas?: Record<string, string> }>(urlSessionId);
+      const loaded = {
+        messages: linkLegacyMessages(stored?.messages ?? []),
+        sessionData: {
+          ...INITIAL_SESSION_DATA,
+          ...stored?.sessionData,
+          parkedIdeas: restoreParkedIdeas(stored?.sessionData.parkedIdeas, stored?.sessionData.bankedIdeas),
+        },
+      };
+      loadedRef.current = loaded;
+      setSessionId(urlSessionId);
+      setMessages(loaded.messages);
+      setSessionData(loaded.sessionData);
+
+      // Re-attach the backend to the same session_id
+      await createSession(urlSessionId);
     };
     initSession();
-  }, []);
+    return () => controller.abort();
+  }, [urlSessionId, sessionId, router]);
+
+  // Persist the conversation whenever a turn completes or it is otherwise changed
+  useEffect(() => {
+    if (!sessionId || streamingId || messages.length === 0) return;
+    const loaded = loadedRef.current;
+    if (loaded && loaded.messages === messages && loaded.sessionData === sessionData) return;
+    saveSession<Message, SessionData>(
+      { sessionId, messages, sessionData },
+      {
+        title: getSessionTitle(getActivePath(messages, sessionData.branches)),
+        clarity: sessionData.clarity.percentage,
+      }
+    );
+  }, [sessionId, messages, sessionData, streamingId]);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -100,72 +266,266 @@ export default function Home() {
     }
   }, [messages]);
 
+  // Only the selected branch is shown and sent to Larry as context
+  const activeMessages = getActivePath(messages, sessionData.branches);
+  const activeIds = new Set(activeMessages.map((m) => m.id));
+  const lastMessage = activeMessages[activeMessages.length - 1];
+  const regenerableId =
+    lastMessage?.role === "assistant" && activeMessages[activeMessages.length - 2]?.role === "user"
+      ? lastMessage.id
+      : null;
+
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
+    const text = input;
+    setInput("");
+    await askLarry(text, lastMessage?.id ?? null, activeMessages);
+  };
+
+  // An edited message becomes a sibling of the original, so both versions stay switchable
+  const editMessage = (message: Message, text: string) => {
+    if (isLoading) return;
+    const index = activeMessages.findIndex((m) => m.id === message.id);
+    askLarry(text, message.parentId ?? null, activeMessages.slice(0, index));
+  };
+
+  // A regenerated reply becomes a sibling of the current one
+  const regenerateReply = (message: Message) => {
+    if (isLoading) return;
+    const index = activeMessages.findIndex((m) => m.id === message.id);
+    const userMessage = activeMessages[index - 1];
+    if (userMessage?.role !== "user") return;
+    requestReply(userMessage, activeMessages.slice(0, index - 1));
+  };
+
+  // Export the branch on screen, with the session data the panel shows
+  const getConversationExport = (): ConversationExport => {
+    const summary = listSessions().find((s) => s.sessionId === sessionId);
+    return {
+      sessionId,
+      title: summary?.customTitle || getSessionTitle(activeMessages),
+      messages: activeMessages
+        .filter((m) => m.displayContent.trim())
+        .map((m) => ({ role: m.role, content: m.displayContent, timestamp: m.timestamp })),
+      clarity: sessionData.clarity,
+      stats: sessionData.stats,
+      clarityHistory: sessionData.clarityHistory.filter((s) => activeIds.has(s.messageId)),
+      parkedIdeas: sessionData.parkedIdeas,
+    };
+  };
 
+  const handleSelectBranch = (message: Message, index: number) => {
+    const target = getSiblings(messages, message).siblings[index];
+    if (!target) return;
+    setSessionData((prev) => {
+      const branches = selectBranch(prev.branches, target);
+      return {
+        ...prev,
+        branches,
+        clarity: getBranchClarity(prev.clarityHistory, getActivePath(messages, branches)),
+      };
+    });
+  };
+
+  const askLarry = async (text: string, parentId: string | null, history: Message[]) => {
     const userMessage: Message = {
       id: `user-${Date.now()}`,
+      parentId,
       role: "user",
-      content: input,
-      displayContent: input,
+      content: text,
+      displayContent: text,
       timestamp: new Date(),
     };
 
     setMessages((prev) => [...prev, userMessage]);
-    setInput("");
+    await requestReply(userMessage, history);
+  };
+
+  /**
+   * Stream Larry's reply to a user message as a new child of it
+   * `history` is the branch leading up to the user message
+   */
+  const requestReply = async (userMessage: Message, history: Message[]) => {
+    const assistantId = `assistant-${Date.now()}`;
+    const turn = history.filter((m) => m.role === "user").length + 1;
+    const assistantMessage: Message = {
+      id: assistantId,
+      parentId: userMessage.id,
+      role: "assistant",
+      content: "",
+      displayContent: "",
+      timestamp: new Date(),
+    };
+
+    setMessages((prev) => [...prev, assistantMessage]);
+    setSessionData((prev) => ({
+      ...prev,
+      branches: selectBranch(selectBranch(prev.branches, userMessage), assistantMessage),
+    }));
     setIsLoading(true);
+    setStreamingId(assistantId);
+
+    const replySessionId = sessionId;
+    const isStale = () => activeSessionRef.current !== replySessionId;
+
+    const updateAssistant = (content: string, displayContent: string) => {
+      if (isStale()) return;
+      setMessages((prev) =>
+        prev.map((m) => (m.id === assistantId ? { ...m, content, displayContent } : m))
+      );
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const response = await fetch(`${API_URL}/api/v1/chat`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          session_id: sessionId,
-          message: input,
-        }),
+      const result = await streamChat({
+        sessionId,
+        message: userMessage.content,
+        history: toChatHistory(history),
+        signal: controller.signal,
+        onToken: (_token, fullText) => {
+          // Only the message part is rendered while tokens arrive
+          updateAssistant(fullText, getLarryMessageText(fullText));
+        },
       });
 
-      const data = await response.json();
-      const fullResponse = data.response || "I couldn't process that. Let's try again.";
+      if (isStale()) return;
 
-      // Parse the response to extract session data
-      const parsed = parseLarryResponse(fullResponse);
+      if (result.aborted && !result.text) {
+        updateAssistant("", "_Stopped._");
+        return;
+      }
 
-      // Update session data
-      setSessionData({
-        clarity: parsed.clarity,
-        stats: parsed.stats,
-        parkedIdeas: parsed.parkedIdeas,
-      });
+      const fullResponse = result.text || "I couldn't process that. Let's try again.";
 
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        role: "assistant",
-        content: fullResponse,
-        displayContent: parsed.message, // Only show the message part
-        timestamp: new Date(),
-      };
+      // Parse the response to extract session data
+      const parsed = parseLarryResponse(fullResponse, result.metadata);
+
+      // Keep the previous panel values when the reply carried no usable metadata
+      if (parsed.metadataSource !== "none" && !parsed.metadataWarning) {
+        setSessionData((prev) => ({
+          ...prev,
+          metadataWarning: undefined,
+          clarity: parsed.clarity,
+          stats: parsed.stats,
+          parkedIdeas: reconcileParkedIdeas(prev.parkedIdeas, parsed.parkedIdeas, turn),
+          clarityHistory: [
+            ...prev.clarityHistory,
+            {
+              messageId: assistantId,
+              turn,
+              clarity: parsed.clarity,
+              timestamp: new Date(),
+            },
+          ],
+        }));
+      } else if (parsed.metadataSource !== "none") {
+        // Clarity couldn't be read - keep the previous reading but take the stats and parked ideas
+        setSessionData((prev) => ({
+          ...prev,
+          metadataWarning: parsed.metadataWarning,
+          stats: parsed.stats,
+          parkedIdeas: reconcileParkedIdeas(prev.parkedIdeas, parsed.parkedIdeas, turn),
+        }));
+      } else if (parsed.metadataWarning) {
+        setSessionData((prev) => ({ ...prev, metadataWarning: parsed.metadataWarning }));
+      }
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      updateAssistant(fullResponse, parsed.message);
     } catch (error) {
       console.error("Failed to send message:", error);
-      const errorMessage: Message = {
-        id: `error-${Date.now()}`,
-        role: "assistant",
-        content: "Sorry, I had trouble connecting. The server might be starting up - try again in a moment.",
-        displayContent: "Sorry, I had trouble connecting. The server might be starting up - try again in a moment.",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      const errorText = `Sorry, I couldn't get a reply. ${getConnectionMessage()}`;
+      updateAssistant(errorText, errorText);
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
     }
   };
 
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+  };
+
+  const switchSession = (id: string) => {
+    setShowMobileSessions(false);
+    if (isLoading || id === sessionId) return;
+    router.push(`/?session=${encodeURIComponent(id)}`);
+  };
+
+  const startNewConversation = async () => {
+    if (isLoading) return;
+    setShowMobileSessions(false);
+    const newId = await createSession();
+    router.push(`/?session=${encodeURIComponent(newId)}`);
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    deleteSession(id);
+    if (id !== sessionId) return;
+
+    // Deleted the open conversation - move to the next one or start fresh
+    const next = listSessions().find((s) => !s.archived);
+    const nextId = next?.sessionId || (await createSession());
+    router.replace(`/?session=${encodeURIComponent(nextId)}`);
+  };
+
+  // Jump from a clarity timeline point to the reply that produced it
+  const handleSnapshotClick = (snapshot: ClaritySnapshot) => {
+    document
+      .getElementById(`message-${snapshot.messageId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedId(snapshot.messageId);
+    setTimeout(() => setHighlightedId(null), 2000);
+  };
+
   const handleParkedIdeaClick = (idea: { id: string; text: string }) => {
     setInput(`Let's explore: ${idea.text}`);
   };
 
+  const handleIdeaUpdate = (id: string, changes: ParkedIdeaUserState) => {
+    setSessionData((prev) => ({ ...prev, parkedIdeas: updateParkedIdea(prev.parkedIdeas, id, changes) }));
+  };
+
+  const handleIdeaMerge = (sourceId: string, targetId: string) => {
+    setSessionData((prev) => ({ ...prev, parkedIdeas: mergeParkedIdeas(prev.parkedIdeas, sourceId, targetId) }));
+  };
+
+  // Prefill a new opportunity from the parked idea and the current clarity
+  const buildBankDraft = (idea: TrackedParkedIdea): SmartPasteResult => {
+    const { what, who, success } = sessionData.clarity;
+    const description = [
+      `Parked during a Larry session: ${idea.text}`,
+      idea.note ? `Notes: ${idea.note}` : "",
+      !success.includes("Not yet") ? `Success looks like: ${success}` : "",
+    ].filter(Boolean).join("\n\n");
+
+    return {
+      title: idea.text.substring(0, 100),
+      description,
+      problem_statement: !what.includes("Not yet") ? what : "",
+      target_audience: !who.includes("Not yet") ? who : "",
+      tags: ["Parked Idea"],
+      priority: "medium",
+    };
+  };
+
+  const handleBankIdea = async (data: SmartPasteResult) => {
+    if (!bankingIdea) return;
+    try {
+      const created = await createOpportunity({
+        ...opportunityFromSmartPaste(data),
+        source_session_id: sessionId,
+      });
+      handleIdeaUpdate(bankingIdea.id, { opportunityId: created.id });
+      setBankingIdea(null);
+    } catch (error) {
+      console.error("Failed to bank idea:", error);
+      alert(`Couldn't bank this idea right now. ${getConnectionMessage()}`);
+    }
+  };
+
   return (
     <div className="flex min-h-screen flex-col bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
       {/* Header */}
@@ -185,6 +545,31 @@ export default function Home() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={startNewConversation}
+              disabled={isLoading || messages.length === 0}
+              className="lg:hidden"
+            >
+              New Chat
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowMobileSessions(true)}
+              className="lg:hidden"
+            >
+              Sessions
+            </Button>
+            <Button
+              variant={showSessions ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowSessions(!showSessions)}
+              className="hidden lg:flex"
+            >
+              Sessions
+            </Button>
             <Button
               variant={showPanel ? "default" : "outline"}
               size="sm"
@@ -193,26 +578,41 @@ export default function Home() {
             >
               {showPanel ? "Hide" : "Show"} Progress
             </Button>
+            <ExportMenu
+              getConversation={getConversationExport}
+              disabled={streamingId !== null || activeMessages.length === 0}
+            />
             <Link href="/opportunities">
               <Button variant="outline" size="sm">
                 Bank of Opportunities
               </Button>
             </Link>
             <ThemeToggle />
-            <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300">
-              Larry Active
-            </span>
+            <ConnectionIndicator />
           </div>
         </div>
       </header>
 
       {/* Main Layout */}
       <div className="flex-1 flex max-w-6xl mx-auto w-full">
+        {/* Session List - Left Sidebar */}
+        {showSessions && (
+          <aside className="hidden lg:block w-64 p-4 border-r bg-slate-50/50 dark:bg-slate-900/50 overflow-y-auto">
+            <SessionSidebar
+              activeSessionId={sessionId}
+              disabled={isLoading}
+              onSelect={switchSession}
+              onNew={startNewConversation}
+              onDelete={handleDeleteSession}
+            />
+          </aside>
+        )}
+
         {/* Chat Area */}
         <main className={`flex-1 flex flex-col px-4 py-6 ${showPanel ? "md:pr-2" : ""}`}>
           <ScrollArea className="flex-1 h-[calc(100vh-220px)]" ref={scrollRef}>
             <div className="space-y-4 pr-4">
-              {messages.length === 0 ? (
+              {activeMessages.length === 0 ? (
                 <Card className="p-8 text-center bg-white/50 dark:bg-slate-800/50">
                   <div className="w-16 h-16 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 mx-auto mb-4 flex items-center justify-center">
                     <span className="text-2xl text-white font-bold">L</span>
@@ -243,9 +643,10 @@ export default function Home() {
                   </div>
                 </Card>
               ) : (
-                messages.map((message) => (
+                activeMessages.map((message) => (
                   <div
                     key={message.id}
+                    id={`message-${message.id}`}
                     className={`flex gap-3 ${
                       message.role === "user" ? "justify-end" : "justify-start"
                     }`}
@@ -255,21 +656,52 @@ export default function Home() {
                         <span className="text-sm text-white font-semibold">L</span>
                       </Avatar>
                     )}
-                    <Card
-                      className={`max-w-[80%] p-4 ${
-                        message.role === "user"
-                          ? "bg-blue-600 text-white"
-                          : "bg-white dark:bg-slate-800"
+                    <div
+                      className={`flex flex-col max-w-[80%] ${
+                        message.role === "user" ? "items-end" : "items-start"
                       }`}
                     >
-                      <p className={`text-sm leading-relaxed whitespace-pre-wrap ${
-                        message.role === "user"
-                          ? "text-white"
-                          : "text-slate-700 dark:text-slate-300"
-                      }`}>
-                        {message.displayContent}
-                      </p>
-                    </Card>
+                      <Card
+                        className={`p-4 transition-shadow ${
+                          message.role === "user"
+                            ? "bg-blue-600 text-white"
+                            : "bg-white dark:bg-slate-800"
+                        } ${highlightedId === message.id ? "ring-2 ring-purple-500" : ""}`}
+                      >
+                        {message.id === streamingId && !message.displayContent ? (
+                          <div className="flex gap-1">
+                            <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" />
+                            <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.2s]" />
+                            <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.4s]" />
+                          </div>
+                        ) : (
+                          <div className={
+                            message.role === "user"
+                              ? "text-white"
+                              : "text-slate-700 dark:text-slate-300"
+                          }>
+                            <ChatMarkdown content={message.displayContent} variant={message.role} />
+                            {message.id === streamingId && (
+                              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse" />
+                            )}
+                          </div>
+                        )}
+                      </Card>
+                      {message.id !== streamingId && (
+                        <MessageActions
+                          role={message.role}
+                          content={message.content}
+                          branchIndex={getSiblings(messages, message).index}
+                          branchCount={getSiblings(messages, message).siblings.length}
+                          disabled={isLoading}
+                          onSelectBranch={(index) => handleSelectBranch(message, index)}
+                          onEdit={(text) => editMessage(message, text)}
+                          onRegenerate={
+                            message.id === regenerableId ? () => regenerateReply(message) : undefined
+                          }
+                        />
+                      )}
+                    </div>
                     {message.role === "user" && (
                       <Avatar className="w-8 h-8 bg-slate-200 dark:bg-slate-700 flex items-center justify-center flex-shrink-0">
                         <span className="text-sm text-slate-600 dark:text-slate-300">U</span>
@@ -278,20 +710,6 @@ export default function Home() {
                   </div>
                 ))
               )}
-              {isLoading && (
-                <div className="flex gap-3 justify-start">
-                  <Avatar className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center">
-                    <span className="text-sm text-white font-semibold">L</span>
-                  </Avatar>
-                  <Card className="p-4 bg-white dark:bg-slate-800">
-                    <div className="flex gap-1">
-                      <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" />
-                      <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.2s]" />
-                      <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.4s]" />
-                    </div>
-                  </Card>
-                </div>
-              )}
             </div>
           </ScrollArea>
 
@@ -301,7 +719,9 @@ export default function Home() {
               value={input}
               onChange={setInput}
               onSend={sendMessage}
+              onStop={stopStreaming}
               disabled={isLoading}
+              isStreaming={streamingId !== null}
               placeholder="What's on your mind?"
               userRole="entrepreneur exploring a business opportunity"
             />
@@ -315,12 +735,55 @@ export default function Home() {
               clarity={sessionData.clarity}
               stats={sessionData.stats}
               parkedIdeas={sessionData.parkedIdeas}
+              clarityHistory={sessionData.clarityHistory.filter((s) => activeIds.has(s.messageId))}
+              metadataWarning={sessionData.metadataWarning}
               onIdeaClick={handleParkedIdeaClick}
+              onIdeaUpdate={handleIdeaUpdate}
+              onIdeaMerge={handleIdeaMerge}
+              onBankIdea={setBankingIdea}
+              onSnapshotClick={handleSnapshotClick}
             />
           </aside>
         )}
       </div>
 
+      {/* Bank Parked Idea Modal */}
+      {bankingIdea && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <SmartPasteForm
+              initialData={buildBankDraft(bankingIdea)}
+              sourceLabel="From Larry Session"
+              onOpportunityCreated={handleBankIdea}
+              onCancel={() => setBankingIdea(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Mobile Session List Overlay */}
+      {showMobileSessions && (
+        <div className="lg:hidden fixed inset-0 z-30 bg-black/50" onClick={() => setShowMobileSessions(false)}>
+          <div
+            className="absolute left-0 top-0 bottom-0 w-72 bg-white dark:bg-slate-900 p-4 overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-end mb-2">
+              <Button variant="ghost" size="sm" onClick={() => setShowMobileSessions(false)}>
+                Close
+              </Button>
+            </div>
+            <SessionSidebar
+              activeSessionId={sessionId}
+              disabled={isLoading}
+              onSelect={switchSession}
+              onNew={startNewConversation}
+              onDelete={handleDeleteSession}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Mobile Panel Toggle */}
       <div className="md:hidden fixed bottom-20 right-4 z-20">
         <Button
@@ -349,7 +812,13 @@ export default function Home() {
               clarity={sessionData.clarity}
               stats={sessionData.stats}
               parkedIdeas={sessionData.parkedIdeas}
+              clarityHistory={sessionData.clarityHistory.filter((s) => activeIds.has(s.messageId))}
+              metadataWarning={sessionData.metadataWarning}
               onIdeaClick={handleParkedIdeaClick}
+              onIdeaUpdate={handleIdeaUpdate}
+              onIdeaMerge={handleIdeaMerge}
+              onBankIdea={setBankingIdea}
+              onSnapshotClick={handleSnapshotClick}
             />
           </div>
         </div>
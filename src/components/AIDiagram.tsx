@@ -3,7 +3,8 @@
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { textToDiagramHandler, DiagramResult } from "@/lib/ai-service";
+import AIProvenanceBadge from "@/components/AIProvenanceBadge";
+import { textToDiagramHandler, DiagramResult, type AIProvenance } from "@/lib/ai-service";
 
 interface AIDiagramProps {
   initialText?: string;
@@ -21,11 +22,13 @@ interface AIDiagramProps {
  * - Text-to-mindmap conversion
  * - Mermaid diagram rendering
  * - Interactive node display
+ * - Badge when the diagram came from the local fallback
  */
 export default function AIDiagram({ initialText = "", onDiagramGenerated }: AIDiagramProps) {
   const [inputText, setInputText] = useState(initialText);
   const [diagramType, setDiagramType] = useState<"flowchart" | "mindmap">("flowchart");
   const [diagram, setDiagram] = useState<DiagramResult | null>(null);
+  const [provenance, setProvenance] = useState<AIProvenance | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
@@ -47,8 +50,9 @@ export default function AIDiagram({ initialText = "", onDiagramGenerated }: AIDi
 
     try {
       const result = await textToDiagramHandler(inputText, diagramType);
-      setDiagram(result);
-      onDiagramGenerated?.(result);
+      setDiagram(result.data);
+      setProvenance(result.provenance);
+      onDiagramGenerated?.(result.data);
     } catch (err) {
       console.error("Diagram generation error:", err);
       setError("Failed to generate diagram. Please try again.");
@@ -234,7 +238,10 @@ Example: 'Users want to track their expenses but find existing apps too complex.
       {diagram && (
         <div className="border rounded-lg p-4 bg-slate-50 dark:bg-slate-900/50">
           <div className="flex items-center justify-between mb-3">
-            <h4 className="text-sm font-medium">Generated {diagramType === "flowchart" ? "Flowchart" : "Mindmap"}</h4>
+            <h4 className="text-sm font-medium flex items-center gap-2">
+              Generated {diagramType === "flowchart" ? "Flowchart" : "Mindmap"}
+              <AIProvenanceBadge provenance={provenance} />
+            </h4>
             <div className="flex gap-2">
               <Button
                 variant="ghost"
@@ -0,0 +1,40 @@
+"use client";
+
+import type { AIProvenance } from "@/lib/ai-service";
+
+interface AIProvenanceBadgeProps {
+  provenance?: AIProvenance | null;
+  className?: string;
+}
+
+/**
+ * Marks AI output that came from local heuristics instead of the model
+ *
+ * Features:
+ * - Renders nothing for model results
+ * - Amber "Fallback" badge when the backend failed, with the reason on hover
+ * - Neutral "Offline" badge for results served in offline mode
+ */
+export default function AIProvenanceBadge({ provenance, className = "" }: AIProvenanceBadgeProps) {
+  if (!provenance || provenance.source === "remote") return null;
+
+  const latency = `${(provenance.latencyMs / 1000).toFixed(1)}s`;
+  const failed = !!provenance.error;
+
+  return (
+    <span
+      title={
+        failed
+          ? `Generated by local heuristics - ${provenance.error} (after ${latency})`
+          : "Generated by local heuristics in offline mode"
+      }
+      className={`inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded-full ${
+        failed
+          ? "bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300"
+          : "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300"
+      } ${className}`}
+    >
+      {failed ? "⚠ Fallback" : "Offline"}
+    </span>
+  );
+}
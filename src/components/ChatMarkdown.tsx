@@ -0,0 +1,121 @@
+"use client";
+
+import { useRef, useState, type ComponentPropsWithoutRef } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+
+interface ChatMarkdownProps {
+  content: string;
+  variant?: "assistant" | "user";
+}
+
+/**
+ * Markdown renderer for chat bubbles
+ *
+ * Renders Larry's replies and user messages as GitHub-flavoured Markdown.
+ * Features:
+ * - Lists, bold/italic, headings, tables, links and code
+ * - Raw HTML is dropped and unsafe link protocols are stripped
+ * - Copy-to-clipboard on code blocks
+ * - Inverted colours for the user's blue bubbles
+ */
+export default function ChatMarkdown({ content, variant = "assistant" }: ChatMarkdownProps) {
+  const isUser = variant === "user";
+
+  const components: Components = {
+    p: ({ children }) => <p className="mb-2 last:mb-0 whitespace-pre-wrap">{children}</p>,
+    ul: ({ children }) => <ul className="mb-2 last:mb-0 ml-5 list-disc space-y-1">{children}</ul>,
+    ol: ({ children }) => <ol className="mb-2 last:mb-0 ml-5 list-decimal space-y-1">{children}</ol>,
+    h1: ({ children }) => <h3 className="mb-2 text-base font-semibold">{children}</h3>,
+    h2: ({ children }) => <h3 className="mb-2 text-base font-semibold">{children}</h3>,
+    h3: ({ children }) => <h4 className="mb-2 font-semibold">{children}</h4>,
+    blockquote: ({ children }) => (
+      <blockquote
+        className={`mb-2 pl-3 border-l-4 italic ${
+          isUser ? "border-blue-300" : "border-purple-300 text-slate-500 dark:text-slate-400"
+        }`}
+      >
+        {children}
+      </blockquote>
+    ),
+    a: ({ href, children }) => (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className={`underline underline-offset-2 ${isUser ? "text-white" : "text-blue-600 dark:text-blue-400"}`}
+      >
+        {children}
+      </a>
+    ),
+    table: ({ children }) => (
+      <div className="mb-2 overflow-x-auto">
+        <table className="w-full text-xs border-collapse">{children}</table>
+      </div>
+    ),
+    th: ({ children }) => (
+      <th className="px-2 py-1 text-left font-semibold border-b border-slate-300 dark:border-slate-600">
+        {children}
+      </th>
+    ),
+    td: ({ children }) => (
+      <td className="px-2 py-1 border-b border-slate-200 dark:border-slate-700">{children}</td>
+    ),
+    code: ({ className, children }) => (
+      <code
+        className={
+          className ||
+          `px-1 py-0.5 rounded font-mono text-[0.85em] ${
+            isUser ? "bg-blue-500" : "bg-slate-100 dark:bg-slate-700"
+          }`
+        }
+      >
+        {children}
+      </code>
+    ),
+    pre: CodeBlock,
+  };
+
+  return (
+    <div className="text-sm leading-relaxed break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} skipHtml>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+// Sub-components
+
+function CodeBlock({ children }: ComponentPropsWithoutRef<"pre">) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const text = preRef.current?.textContent ?? "";
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  return (
+    <div className="relative group mb-2 last:mb-0">
+      <pre
+        ref={preRef}
+        className="p-3 pr-14 rounded-lg overflow-x-auto bg-slate-900 text-slate-100 text-xs font-mono [&_code]:bg-transparent [&_code]:p-0"
+      >
+        {children}
+      </pre>
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 px-2 py-0.5 rounded text-xs bg-slate-700 text-slate-200 opacity-0 group-hover:opacity-100 hover:bg-slate-600 transition-opacity"
+      >
+        {copied ? "✓ Copied" : "Copy"}
+      </button>
+    </div>
+  );
+}
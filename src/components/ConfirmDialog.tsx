@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+interface ConfirmDialogProps {
+  open: boolean;
+  title: string;
+  message: React.ReactNode;
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal confirmation for actions that change or remove data
+ *
+ * Features:
+ * - Escape or clicking the backdrop cancels
+ * - Red confirm button for destructive actions
+ */
+export default function ConfirmDialog({
+  open,
+  title,
+  message,
+  confirmLabel,
+  destructive,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onCancel]);
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onCancel}
+      role="presentation"
+    >
+      <Card
+        className="max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+      >
+        <h3 id="confirm-dialog-title" className="text-lg font-semibold mb-2">
+          {title}
+        </h3>
+        <div className="text-sm text-slate-600 dark:text-slate-400 mb-5">{message}</div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            autoFocus
+            className={destructive ? "bg-red-600 hover:bg-red-700 text-white" : undefined}
+          >
+            {confirmLabel}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import {
+  getConnectionStatus,
+  getServerConnectionStatus,
+  subscribeConnection,
+  startConnectionMonitor,
+  checkConnection,
+  type ConnectionState,
+} from "@/lib/connection-status";
+import { isOfflineMode, isOfflineModeOnServer, setOfflineMode, subscribeOfflineMode } from "@/lib/offline-mode";
+import {
+  getAIFallbackStats,
+  getServerAIFallbackStats,
+  subscribeAIFallbackStats,
+  resetAIFallbackStats,
+} from "@/lib/ai-fallback-stats";
+
+const STATE_STYLES: Record<ConnectionState, { label: string; pill: string; dot: string; hint: string }> = {
+  unknown: {
+    label: "Connecting...",
+    pill: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+    dot: "bg-slate-400",
+    hint: "Checking the server",
+  },
+  checking: {
+    label: "Connecting...",
+    pill: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+    dot: "bg-slate-400 animate-pulse",
+    hint: "Checking the server",
+  },
+  online: {
+    label: "Larry Active",
+    pill: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
+    dot: "bg-green-500",
+    hint: "Connected",
+  },
+  waking: {
+    label: "Waking up...",
+    pill: "bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300",
+    dot: "bg-amber-500 animate-pulse",
+    hint: "The server is starting up - requests will go through once it's ready",
+  },
+  offline: {
+    label: "Offline",
+    pill: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+    dot: "bg-red-500",
+    hint: "Can't reach the server - retrying automatically. Click to retry now.",
+  },
+};
+
+const OFFLINE_MODE_STYLE = {
+  label: "Offline mode",
+  pill: "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300",
+  dot: "bg-purple-500",
+  hint: "Using the local stand-in backend - data is stored in this browser",
+};
+
+/**
+ * Backend connection indicator for page headers
+ *
+ * Features:
+ * - Live status from the connection monitor
+ * - Distinguishes a cold start from the server being down
+ * - Menu to re-check immediately or switch between the live server and offline mode
+ * - Counts AI results that fell back to local heuristics this session
+ */
+export default function ConnectionIndicator() {
+  const status = useSyncExternalStore(subscribeConnection, getConnectionStatus, getServerConnectionStatus);
+  const offline = useSyncExternalStore(subscribeOfflineMode, isOfflineMode, isOfflineModeOnServer);
+  const aiStats = useSyncExternalStore(subscribeAIFallbackStats, getAIFallbackStats, getServerAIFallbackStats);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const style = offline ? OFFLINE_MODE_STYLE : STATE_STYLES[status.state];
+
+  useEffect(() => {
+    startConnectionMonitor();
+  }, []);
+
+  // Close the menu on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const switchMode = (enabled: boolean) => {
+    setOfflineMode(enabled);
+    // Every page reloads its data from the newly selected backend
+    window.location.reload();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        title={style.hint}
+        className={`flex items-center gap-1.5 text-xs px-2 py-1 rounded-full ${style.pill}`}
+      >
+        <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+        {style.label}
+        {aiStats.fallbacks > 0 && (
+          <span
+            title={`${aiStats.fallbacks} AI result${aiStats.fallbacks === 1 ? "" : "s"} fell back to local heuristics`}
+            className="ml-0.5 px-1 rounded-full bg-amber-500 text-white text-[10px] leading-4"
+          >
+            {aiStats.fallbacks}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 z-20 rounded-lg border bg-white dark:bg-slate-900 shadow-lg p-3 text-xs space-y-2">
+          <p className="text-slate-600 dark:text-slate-300">{style.hint}</p>
+          <AIFallbackSummary
+            remote={aiStats.remote}
+            fallbacks={aiStats.fallbacks}
+            lastError={aiStats.lastError}
+            onReset={resetAIFallbackStats}
+          />
+          {!offline && (
+            <button
+              onClick={() => {
+                checkConnection();
+                setIsOpen(false);
+              }}
+              className="w-full text-left px-2 py-1.5 rounded hover:bg-slate-100 dark:hover:bg-slate-800"
+            >
+              Check connection now
+            </button>
+          )}
+          <button
+            onClick={() => switchMode(!offline)}
+            className="w-full text-left px-2 py-1.5 rounded hover:bg-slate-100 dark:hover:bg-slate-800"
+          >
+            {offline ? "Switch to the live server" : "Work offline with local data"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Sub-components
+
+function AIFallbackSummary({
+  remote,
+  fallbacks,
+  lastError,
+  onReset,
+}: {
+  remote: number;
+  fallbacks: number;
+  lastError?: string;
+  onReset: () => void;
+}) {
+  const total = remote + fallbacks;
+  if (total === 0) return null;
+
+  return (
+    <div className="rounded border px-2 py-1.5 text-slate-600 dark:text-slate-300">
+      <div className="flex items-center justify-between">
+        <span>
+          AI fallbacks this session: <strong>{fallbacks}</strong> of {total}
+        </span>
+        <button onClick={onReset} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+          Reset
+        </button>
+      </div>
+      {lastError && fallbacks > 0 && <p className="mt-0.5 text-amber-600 dark:text-amber-400">Last: {lastError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  exportConversation,
+  downloadFile,
+  type ConversationExport,
+  type ExportFormat,
+} from "@/lib/conversation-export";
+
+interface ExportMenuProps {
+  getConversation: () => ConversationExport;
+  disabled?: boolean;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string; icon: string }[] = [
+  { format: "markdown", label: "Markdown", description: "Transcript, clarity and parked ideas", icon: "📝" },
+  { format: "json", label: "JSON", description: "Everything, machine-readable", icon: "🧾" },
+  { format: "brief", label: "Problem Brief", description: "One page from What/Who/Success", icon: "📄" },
+];
+
+/**
+ * Export menu for a Larry conversation
+ *
+ * Features:
+ * - Markdown transcript download
+ * - JSON download with clarity snapshots and parked ideas
+ * - One-page problem brief for stakeholders
+ */
+export default function ExportMenu({ getConversation, disabled = false }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    const { filename, mimeType, content } = exportConversation(getConversation(), format);
+    downloadFile(filename, content, mimeType);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)} disabled={disabled}>
+        Export
+      </Button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-64 z-20 rounded-lg border bg-white dark:bg-slate-900 shadow-lg p-1">
+            {EXPORT_OPTIONS.map((option) => (
+              <button
+                key={option.format}
+                onClick={() => handleExport(option.format)}
+                className="w-full flex items-start gap-3 p-2 rounded-md text-left hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                <span className="text-lg">{option.icon}</span>
+                <span>
+                  <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">
+                    {option.label}
+                  </span>
+                  <span className="block text-xs text-slate-400">{option.description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { Button } from "@/components/ui/button";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import {
+  applyGridView,
+  deleteGridView,
+  getGridViews,
+  getServerGridViews,
+  isGridViewModified,
+  resetGridLayout,
+  saveGridView,
+  subscribeGridViews,
+  updateGridView,
+  type SavedView,
+} from "@/lib/grid-views";
+import type { OpportunityFilters } from "@/lib/opportunity-filters";
+
+interface GridViewSwitcherProps {
+  filters: OpportunityFilters;
+  onApplyView: (view: SavedView) => void; // Apply the view's filters
+}
+
+/**
+ * Saved view picker for the opportunity grid
+ *
+ * Features:
+ * - Built-in views plus the user's own, remembered in this browser
+ * - Shows when the layout or filters have drifted from the active view
+ * - Save as a new view, update or delete a saved view, reset the layout
+ */
+export default function GridViewSwitcher({ filters, onApplyView }: GridViewSwitcherProps) {
+  const views = useSyncExternalStore(subscribeGridViews, getGridViews, getServerGridViews);
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const activeView = views.views.find((view) => view.id === views.activeViewId);
+  const modified = isGridViewModified(views, filters);
+  const nameTaken = views.views.some((view) => view.name.toLowerCase() === name.trim().toLowerCase());
+
+  const selectView = (id: string) => {
+    const view = applyGridView(id);
+    if (view) onApplyView(view);
+  };
+
+  const saveView = () => {
+    if (!name.trim() || nameTaken) return;
+    saveGridView(name, filters);
+    setName("");
+    setIsNaming(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+      <label className="flex items-center gap-2 text-slate-600 dark:text-slate-400">
+        View
+        <select
+          value={views.activeViewId}
+          onChange={(e) => selectView(e.target.value)}
+          className="px-2 py-1.5 border rounded-md bg-white dark:bg-slate-900 text-slate-900 dark:text-slate-100"
+        >
+          {views.views.map((view) => (
+            <option key={view.id} value={view.id}>
+              {view.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {modified && <span className="text-xs text-amber-600">Modified</span>}
+
+      {isNaming ? (
+        <>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveView();
+              if (e.key === "Escape") setIsNaming(false);
+            }}
+            placeholder="View name"
+            className="w-44 px-2 py-1 border rounded-md bg-white dark:bg-slate-900"
+            aria-invalid={nameTaken}
+            autoFocus
+          />
+          <Button size="sm" onClick={saveView} disabled={!name.trim() || nameTaken}>
+            Save
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setIsNaming(false)}>
+            Cancel
+          </Button>
+          {nameTaken && <span className="text-xs text-red-600">A view with this name exists</span>}
+        </>
+      ) : (
+        <Button size="sm" variant="outline" onClick={() => setIsNaming(true)}>
+          Save as view
+        </Button>
+      )}
+
+      {activeView && !activeView.builtIn && (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!modified}
+            onClick={() => updateGridView(activeView.id, filters)}
+          >
+            Update view
+          </Button>
+          <Button size="sm" variant="ghost" className="text-red-600" onClick={() => setIsConfirmingDelete(true)}>
+            Delete view
+          </Button>
+        </>
+      )}
+      <Button size="sm" variant="ghost" onClick={resetGridLayout}>
+        Reset layout
+      </Button>
+
+      <ConfirmDialog
+        open={isConfirmingDelete}
+        title="Delete view?"
+        message={`"${activeView?.name}" will be removed. The grid keeps its current layout.`}
+        confirmLabel="Delete"
+        destructive
+        onConfirm={() => {
+          if (activeView) deleteGridView(activeView.id);
+          setIsConfirmingDelete(false);
+        }}
+        onCancel={() => setIsConfirmingDelete(false)}
+      />
+    </div>
+  );
+}
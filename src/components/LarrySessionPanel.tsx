@@ -1,32 +1,35 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Card } from "@/components/ui/card";
+import {
+  getChangedDimensions,
+  type ProblemClarity,
+  type SessionStats,
+  type ClaritySnapshot,
+} from "@/lib/larry-metadata";
+import {
+  getActiveParkedIdeas,
+  getMergedIdeas,
+  type TrackedParkedIdea,
+  type ParkedIdeaUserState,
+} from "@/lib/parked-ideas";
 
-interface ProblemClarity {
-  percentage: number;
-  what: string;
-  who: string;
-  success: string;
-}
-
-interface SessionStats {
-  questionsAsked: number;
-  parkedIdeas: number;
-  assumptionsChallenged: number;
-}
-
-interface ParkedIdea {
-  id: string;
-  text: string;
-  timestamp: Date;
-}
+// Parsing lives in the metadata protocol module
+export { parseLarryResponse, getLarryMessageText } from "@/lib/larry-metadata";
 
 interface LarrySessionPanelProps {
   clarity: ProblemClarity;
   stats: SessionStats;
-  parkedIdeas: ParkedIdea[];
-  onIdeaClick?: (idea: ParkedIdea) => void;
+  parkedIdeas: TrackedParkedIdea[];
+  clarityHistory?: ClaritySnapshot[];
+  metadataWarning?: string;
+  onIdeaClick?: (idea: TrackedParkedIdea) => void;
+  onBankIdea?: (idea: TrackedParkedIdea) => void;
+  onIdeaUpdate?: (id: string, changes: ParkedIdeaUserState) => void;
+  onIdeaMerge?: (sourceId: string, targetId: string) => void;
+  onSnapshotClick?: (snapshot: ClaritySnapshot) => void;
 }
 
 /**
@@ -37,8 +40,18 @@ export default function LarrySessionPanel({
   clarity,
   stats,
   parkedIdeas,
+  clarityHistory = [],
+  metadataWarning,
   onIdeaClick,
+  onBankIdea,
+  onIdeaUpdate,
+  onIdeaMerge,
+  onSnapshotClick,
 }: LarrySessionPanelProps) {
+  const [showDismissed, setShowDismissed] = useState(false);
+  const activeIdeas = getActiveParkedIdeas(parkedIdeas);
+  const dismissedIdeas = parkedIdeas.filter((idea) => idea.dismissed && !idea.mergedInto);
+
   // Determine clarity color and status
   const getClarityColor = (pct: number) => {
     if (pct >= 80) return { bg: "bg-green-500", text: "text-green-600", glow: "shadow-green-500/30" };
@@ -58,6 +71,14 @@ export default function LarrySessionPanel({
 
   return (
     <div className="space-y-4">
+      {/* Metadata Warning */}
+      {metadataWarning && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-700 text-xs dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-300">
+          <p className="font-medium mb-1">⚠️ Session data may be out of date</p>
+          <p>{metadataWarning}</p>
+        </div>
+      )}
+
       {/* Problem Clarity Gauge */}
       <Card className="p-4 bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 border-none shadow-lg">
         <div className="flex items-center justify-between mb-3">
@@ -131,6 +152,11 @@ export default function LarrySessionPanel({
         </div>
       </Card>
 
+      {/* Clarity Timeline */}
+      {clarityHistory.length > 1 && (
+        <ClarityTimeline history={clarityHistory} onSnapshotClick={onSnapshotClick} />
+      )}
+
       {/* Session Stats */}
       <div className="grid grid-cols-3 gap-3">
         <StatCard
@@ -154,28 +180,54 @@ export default function LarrySessionPanel({
       </div>
 
       {/* Parked Ideas */}
-      {parkedIdeas.length > 0 && (
+      {activeIdeas.length + dismissedIdeas.length > 0 && (
         <Card className="p-4 border-l-4 border-purple-500">
           <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
             <span className="text-lg">💡</span>
             Parked Ideas
           </h3>
           <div className="space-y-2">
-            {parkedIdeas.map((idea) => (
-              <button
+            {activeIdeas.map((idea) => (
+              <ParkedIdeaItem
                 key={idea.id}
-                onClick={() => onIdeaClick?.(idea)}
-                className="w-full text-left p-2 rounded-lg bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/30 transition-colors group"
-              >
-                <p className="text-sm text-slate-700 dark:text-slate-300 truncate">
-                  {idea.text}
-                </p>
-                <p className="text-xs text-slate-400 group-hover:text-purple-500">
-                  Click to explore →
-                </p>
-              </button>
+                idea={idea}
+                mergedIdeas={getMergedIdeas(parkedIdeas, idea.id)}
+                mergeTargets={activeIdeas.filter((other) => other.id !== idea.id)}
+                onExplore={onIdeaClick}
+                onBank={onBankIdea}
+                onUpdate={onIdeaUpdate}
+                onMerge={onIdeaMerge}
+              />
             ))}
           </div>
+
+          {dismissedIdeas.length > 0 && (
+            <div className="mt-3 pt-3 border-t">
+              <button
+                onClick={() => setShowDismissed(!showDismissed)}
+                className="text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+              >
+                {showDismissed ? "▾" : "▸"} Dismissed ({dismissedIdeas.length})
+              </button>
+              {showDismissed && (
+                <div className="space-y-1 mt-2">
+                  {dismissedIdeas.map((idea) => (
+                    <div key={idea.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-slate-400 line-through truncate">{idea.text}</span>
+                      {onIdeaUpdate && (
+                        <button
+                          onClick={() => onIdeaUpdate(idea.id, { dismissed: false })}
+                          className="text-slate-500 hover:text-purple-600 flex-shrink-0"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </Card>
       )}
     </div>
@@ -184,6 +236,151 @@ export default function LarrySessionPanel({
 
 // Sub-components
 
+function ParkedIdeaItem({
+  idea,
+  mergedIdeas,
+  mergeTargets,
+  onExplore,
+  onBank,
+  onUpdate,
+  onMerge,
+}: {
+  idea: TrackedParkedIdea;
+  mergedIdeas: TrackedParkedIdea[];
+  mergeTargets: TrackedParkedIdea[];
+  onExplore?: (idea: TrackedParkedIdea) => void;
+  onBank?: (idea: TrackedParkedIdea) => void;
+  onUpdate?: (id: string, changes: ParkedIdeaUserState) => void;
+  onMerge?: (sourceId: string, targetId: string) => void;
+}) {
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [draftNote, setDraftNote] = useState("");
+  const [isMerging, setIsMerging] = useState(false);
+
+  const startNote = () => {
+    setDraftNote(idea.note || "");
+    setIsEditingNote(true);
+  };
+
+  const commitNote = () => {
+    onUpdate?.(idea.id, { note: draftNote.trim() || undefined });
+    setIsEditingNote(false);
+  };
+
+  return (
+    <div className="p-2 rounded-lg bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/30 transition-colors group">
+      <div className="flex items-start gap-2">
+        {onUpdate && (
+          <button
+            onClick={() => onUpdate(idea.id, { starred: !idea.starred })}
+            className={idea.starred ? "text-yellow-500" : "text-slate-300 hover:text-yellow-500"}
+            title={idea.starred ? "Unstar" : "Star"}
+          >
+            {idea.starred ? "★" : "☆"}
+          </button>
+        )}
+        <button onClick={() => onExplore?.(idea)} className="flex-1 min-w-0 text-left">
+          <p className="text-sm text-slate-700 dark:text-slate-300 truncate">{idea.text}</p>
+          <p className="text-xs text-slate-400 group-hover:text-purple-500">
+            {idea.firstSeenTurn > 0 ? `Parked turn ${idea.firstSeenTurn} · ` : ""}Click to explore →
+          </p>
+        </button>
+      </div>
+
+      {mergedIdeas.length > 0 && (
+        <ul className="mt-1 ml-6 space-y-0.5">
+          {mergedIdeas.map((merged) => (
+            <li key={merged.id} className="text-xs text-slate-400 truncate">
+              + {merged.text}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isEditingNote ? (
+        <textarea
+          autoFocus
+          value={draftNote}
+          onChange={(e) => setDraftNote(e.target.value)}
+          onBlur={commitNote}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              commitNote();
+            }
+            if (e.key === "Escape") setIsEditingNote(false);
+          }}
+          rows={2}
+          placeholder="Add a note..."
+          className="mt-2 w-full px-2 py-1 text-xs border rounded bg-background resize-none"
+        />
+      ) : (
+        idea.note && (
+          <p className="mt-1 ml-6 text-xs text-slate-500 dark:text-slate-400 italic whitespace-pre-wrap">
+            {idea.note}
+          </p>
+        )
+      )}
+
+      {isMerging && (
+        <select
+          autoFocus
+          defaultValue=""
+          onChange={(e) => {
+            if (e.target.value) onMerge?.(idea.id, e.target.value);
+            setIsMerging(false);
+          }}
+          onBlur={() => setIsMerging(false)}
+          className="mt-2 w-full px-2 py-1 text-xs border rounded bg-background"
+        >
+          <option value="" disabled>
+            Merge into...
+          </option>
+          {mergeTargets.map((target) => (
+            <option key={target.id} value={target.id}>
+              {target.text}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex items-center justify-between mt-1">
+        <div className="flex gap-2 text-xs text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity">
+          {onUpdate && (
+            <button onClick={startNote} className="hover:text-purple-600">
+              {idea.note ? "Edit note" : "Note"}
+            </button>
+          )}
+          {onMerge && mergeTargets.length > 0 && (
+            <button onClick={() => setIsMerging(true)} className="hover:text-purple-600">
+              Merge
+            </button>
+          )}
+          {onUpdate && (
+            <button onClick={() => onUpdate(idea.id, { dismissed: true })} className="hover:text-red-600">
+              Dismiss
+            </button>
+          )}
+        </div>
+        {idea.opportunityId ? (
+          <Link href={`/opportunities/${idea.opportunityId}`} className="text-xs text-green-600 hover:underline">
+            ✓ Banked
+          </Link>
+        ) : (
+          onBank && (
+            <button
+              onClick={() => onBank(idea)}
+              className="text-xs px-2 py-0.5 rounded-full bg-purple-600 text-white hover:bg-purple-700"
+            >
+              Bank it
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
 function ClarityDimension({
   label,
   value,
@@ -216,6 +413,83 @@ function ClarityDimension({
   );
 }
 
+function ClarityTimeline({
+  history,
+  onSnapshotClick,
+}: {
+  history: ClaritySnapshot[];
+  onSnapshotClick?: (snapshot: ClaritySnapshot) => void;
+}) {
+  const width = 240;
+  const height = 60;
+  const padding = 6;
+
+  const points = history.map((snapshot, i) => ({
+    snapshot,
+    x: padding + (i / (history.length - 1)) * (width - padding * 2),
+    y: height - padding - (snapshot.clarity.percentage / 100) * (height - padding * 2),
+    changed: getChangedDimensions(history[i - 1]?.clarity, snapshot.clarity),
+  }));
+
+  const path = points.map((p, i) => `${i === 0 ? "M" : "L"}${p.x},${p.y}`).join(" ");
+  const milestones = points.filter((p) => p.changed.length > 0).slice(-4).reverse();
+
+  return (
+    <Card className="p-4 gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-600 dark:text-slate-400 uppercase tracking-wide">
+          Clarity Over Time
+        </h3>
+        <span className="text-xs text-slate-400">{history.length} turns</span>
+      </div>
+
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-16 overflow-visible">
+        <path d={path} fill="none" stroke="currentColor" strokeWidth="2" className="text-blue-500" />
+        {points.map((p) => (
+          <circle
+            key={p.snapshot.messageId}
+            cx={p.x}
+            cy={p.y}
+            r={p.changed.length > 0 ? 5 : 3.5}
+            onClick={() => onSnapshotClick?.(p.snapshot)}
+            className={`cursor-pointer transition-all hover:opacity-70 ${
+              p.changed.length > 0 ? "fill-purple-500" : "fill-blue-500"
+            }`}
+          >
+            <title>
+              {`Turn ${p.snapshot.turn}: ${p.snapshot.clarity.percentage}%`}
+              {p.changed.length > 0 ? ` - ${p.changed.join(", ")} changed` : ""}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      {/* Turns where the problem definition moved */}
+      {milestones.length > 0 && (
+        <div className="space-y-1">
+          {milestones.map((p) => (
+            <button
+              key={p.snapshot.messageId}
+              onClick={() => onSnapshotClick?.(p.snapshot)}
+              className="w-full text-left text-xs p-1.5 rounded hover:bg-purple-50 dark:hover:bg-purple-900/20"
+            >
+              <span className="font-medium text-purple-600 dark:text-purple-400">
+                Turn {p.snapshot.turn}
+              </span>
+              <span className="text-slate-500">
+                {" "}· {p.changed.map((key) => key.charAt(0).toUpperCase() + key.slice(1)).join(", ")} changed
+              </span>
+              <p className="text-slate-400 truncate">
+                {p.snapshot.clarity[p.changed[0]]}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
 function StatCard({
   icon,
   value,
@@ -245,76 +519,3 @@ function StatCard({
     </Card>
   );
 }
-
-/**
- * Parse Larry's markdown response to extract session data
- */
-export function parseLarryResponse(response: string): {
-  message: string;
-  clarity: ProblemClarity;
-  stats: SessionStats;
-  parkedIdeas: ParkedIdea[];
-} {
-  // Split on the --- separator
-  const parts = response.split("---");
-  const message = parts[0].trim();
-
-  // Default values
-  let clarity: ProblemClarity = {
-    percentage: 0,
-    what: "Not yet clear",
-    who: "Not yet identified",
-    success: "Not yet defined",
-  };
-
-  let stats: SessionStats = {
-    questionsAsked: 0,
-    parkedIdeas: 0,
-    assumptionsChallenged: 0,
-  };
-
-  let parkedIdeas: ParkedIdea[] = [];
-
-  if (parts.length > 1) {
-    const metadataSection = parts.slice(1).join("---");
-
-    // Parse Problem Clarity percentage
-    const clarityMatch = metadataSection.match(/Problem Clarity:\s*(\d+)%/);
-    if (clarityMatch) {
-      clarity.percentage = parseInt(clarityMatch[1]);
-    }
-
-    // Parse What/Who/Success
-    const whatMatch = metadataSection.match(/What is the problem:\s*\[([^\]]+)\]/);
-    if (whatMatch) clarity.what = whatMatch[1];
-
-    const whoMatch = metadataSection.match(/Who has this problem:\s*\[([^\]]+)\]/);
-    if (whoMatch) clarity.who = whoMatch[1];
-
-    const successMatch = metadataSection.match(/What is success:\s*\[([^\]]+)\]/);
-    if (successMatch) clarity.success = successMatch[1];
-
-    // Parse Session Stats
-    const questionsMatch = metadataSection.match(/Questions asked:\s*(\d+)/);
-    if (questionsMatch) stats.questionsAsked = parseInt(questionsMatch[1]);
-
-    const parkedMatch = metadataSection.match(/Parked ideas:\s*(\d+)/);
-    if (parkedMatch) stats.parkedIdeas = parseInt(parkedMatch[1]);
-
-    const challengedMatch = metadataSection.match(/Assumptions challenged:\s*(\d+)/);
-    if (challengedMatch) stats.assumptionsChallenged = parseInt(challengedMatch[1]);
-
-    // Parse Parked Ideas list
-    const parkedSection = metadataSection.match(/\*\*Parked Ideas:\*\*([^*]+)/);
-    if (parkedSection && !parkedSection[1].includes("None")) {
-      const ideas = parkedSection[1].split("\n").filter(line => line.trim().startsWith("-"));
-      parkedIdeas = ideas.map((idea, idx) => ({
-        id: `idea-${idx}`,
-        text: idea.replace(/^-\s*/, "").trim(),
-        timestamp: new Date(),
-      }));
-    }
-  }
-
-  return { message, clarity, stats, parkedIdeas };
-}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+interface MessageActionsProps {
+  role: "user" | "assistant";
+  content: string;
+  branchIndex: number;
+  branchCount: number;
+  disabled?: boolean;
+  onSelectBranch: (index: number) => void;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+}
+
+/**
+ * Per-message controls under a chat bubble
+ *
+ * Features:
+ * - Branch switcher (‹ 1/3 ›) when a message has alternatives
+ * - Edit and resend for user messages
+ * - Regenerate for the latest assistant reply
+ */
+export default function MessageActions({
+  role,
+  content,
+  branchIndex,
+  branchCount,
+  disabled = false,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+}: MessageActionsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const startEdit = () => {
+    setDraft(content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || draft === content) {
+      setIsEditing(false);
+      return;
+    }
+    onEdit?.(draft);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="mt-2 w-full min-w-[16rem] space-y-2">
+        <textarea
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              submitEdit();
+            }
+            if (e.key === "Escape") setIsEditing(false);
+          }}
+          rows={3}
+          className="w-full px-3 py-2 text-sm border rounded-lg bg-background resize-none"
+        />
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={submitEdit} disabled={disabled || !draft.trim()}>
+            Save & resend
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const hasBranches = branchCount > 1;
+  const canEdit = role === "user" && onEdit;
+  if (!hasBranches && !canEdit && !onRegenerate) return null;
+
+  return (
+    <div
+      className={`flex items-center gap-3 mt-1 text-xs text-slate-400 ${
+        role === "user" ? "justify-end" : "justify-start"
+      }`}
+    >
+      {hasBranches && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onSelectBranch(branchIndex - 1)}
+            disabled={disabled || branchIndex === 0}
+            className="px-1 hover:text-slate-600 disabled:opacity-40"
+            aria-label="Previous version"
+          >
+            ‹
+          </button>
+          <span>
+            {branchIndex + 1}/{branchCount}
+          </span>
+          <button
+            onClick={() => onSelectBranch(branchIndex + 1)}
+            disabled={disabled || branchIndex === branchCount - 1}
+            className="px-1 hover:text-slate-600 disabled:opacity-40"
+            aria-label="Next version"
+          >
+            ›
+          </button>
+        </div>
+      )}
+      {canEdit && (
+        <button onClick={startEdit} disabled={disabled} className="hover:text-blue-600 disabled:opacity-40">
+          ✏️ Edit
+        </button>
+      )}
+      {onRegenerate && (
+        <button onClick={onRegenerate} disabled={disabled} className="hover:text-purple-600 disabled:opacity-40">
+          🔄 Regenerate
+        </button>
+      )}
+    </div>
+  );
+}
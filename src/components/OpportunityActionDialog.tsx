@@ -0,0 +1,59 @@
+"use client";
+
+import ConfirmDialog from "@/components/ConfirmDialog";
+import type { Opportunity } from "@/lib/schemas";
+
+export type OpportunityAction = "archive" | "restore" | "delete";
+
+export interface PendingOpportunityAction {
+  action: OpportunityAction;
+  opportunity: Opportunity;
+}
+
+const ACTION_COPY: Record<
+  OpportunityAction,
+  { title: string; confirmLabel: string; destructive?: boolean; describe: (name: string) => string }
+> = {
+  archive: {
+    title: "Archive opportunity?",
+    confirmLabel: "Archive",
+    describe: (name) =>
+      `"${name}" will be hidden from the main list and analytics. You can restore it from the Archived view.`,
+  },
+  restore: {
+    title: "Restore opportunity?",
+    confirmLabel: "Restore",
+    describe: (name) => `"${name}" will return to the main list with the status it had before it was archived.`,
+  },
+  delete: {
+    title: "Delete permanently?",
+    confirmLabel: "Delete",
+    destructive: true,
+    describe: (name) => `"${name}" and its status history will be deleted. You'll have a few seconds to undo.`,
+  },
+};
+
+interface OpportunityActionDialogProps {
+  pending: PendingOpportunityAction | null;
+  onConfirm: (pending: PendingOpportunityAction) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation step for archive, restore and delete
+ */
+export default function OpportunityActionDialog({ pending, onConfirm, onCancel }: OpportunityActionDialogProps) {
+  const copy = pending ? ACTION_COPY[pending.action] : null;
+
+  return (
+    <ConfirmDialog
+      open={!!pending}
+      title={copy?.title ?? ""}
+      message={pending && copy ? copy.describe(pending.opportunity.name) : ""}
+      confirmLabel={copy?.confirmLabel ?? ""}
+      destructive={copy?.destructive}
+      onConfirm={() => pending && onConfirm(pending)}
+      onCancel={onCancel}
+    />
+  );
+}
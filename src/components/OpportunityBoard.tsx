@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import type { Opportunity } from "@/lib/schemas";
+import {
+  MIN_RATIONALE_LENGTH,
+  OPPORTUNITY_STATUSES,
+  STATUS_COLORS,
+  canMoveOnBoard,
+  transitionStatus,
+  type OpportunityStatus,
+} from "@/lib/opportunity-status";
+
+const COLUMN_ACCENTS: Record<OpportunityStatus, string> = {
+  exploring: "border-t-blue-500",
+  validated: "border-t-green-500",
+  parked: "border-t-yellow-500",
+  archived: "border-t-gray-400",
+};
+
+const priorityColors: Record<string, string> = {
+  high: "text-red-600",
+  medium: "text-yellow-600",
+  low: "text-green-600",
+};
+
+interface OpportunityBoardProps {
+  opportunities: Opportunity[];
+  onMove: (opportunity: Opportunity, patch: Pick<Opportunity, "status" | "status_history">) => Promise<boolean>;
+}
+
+/**
+ * Kanban pipeline board - one column per status
+ *
+ * Features:
+ * - Drag cards between columns to change status
+ * - Only moves the status workflow allows are accepted (plus archive / restore)
+ * - Every move asks for a short rationale, recorded in the status history
+ * - Column headers show the WIP count and average CSIO score
+ */
+export default function OpportunityBoard({ opportunities, onMove }: OpportunityBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<OpportunityStatus | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ opportunity: Opportunity; to: OpportunityStatus } | null>(null);
+
+  const dragging = opportunities.find((o) => o.id === draggingId) ?? null;
+
+  const handleDrop = (to: OpportunityStatus) => {
+    setOverColumn(null);
+    setDraggingId(null);
+    if (dragging && canMoveOnBoard(dragging.status, to)) {
+      setPendingMove({ opportunity: dragging, to });
+    }
+  };
+
+  return (
+    <>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {OPPORTUNITY_STATUSES.map((status) => {
+          const cards = opportunities.filter((o) => o.status === status);
+          const canDrop = !!dragging && canMoveOnBoard(dragging.status, status);
+          const isSource = dragging?.status === status;
+
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                if (!canDrop) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                setOverColumn(status);
+              }}
+              onDragLeave={() => setOverColumn((column) => (column === status ? null : column))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(status);
+              }}
+              className={`flex flex-col rounded-lg border border-t-4 bg-slate-50 dark:bg-slate-900/50 min-h-[240px] transition-colors ${
+                COLUMN_ACCENTS[status]
+              } ${overColumn === status ? "ring-2 ring-blue-400 bg-blue-50 dark:bg-blue-950/40" : ""} ${
+                dragging && !canDrop && !isSource ? "opacity-50" : ""
+              }`}
+            >
+              <ColumnHeader status={status} opportunities={cards} />
+              <div className="flex-1 p-2 space-y-2">
+                {cards.map((opportunity) => (
+                  <BoardCard
+                    key={opportunity.id}
+                    opportunity={opportunity}
+                    isDragging={opportunity.id === draggingId}
+                    onDragStart={() => setDraggingId(opportunity.id)}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setOverColumn(null);
+                    }}
+                  />
+                ))}
+                {cards.length === 0 && (
+                  <p className="text-xs text-slate-400 text-center py-6">
+                    {canDrop ? "Drop here" : "Nothing here"}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {pendingMove && (
+        <MoveDialog
+          opportunity={pendingMove.opportunity}
+          to={pendingMove.to}
+          onCancel={() => setPendingMove(null)}
+          onConfirm={async (patch) => {
+            setPendingMove(null);
+            await onMove(pendingMove.opportunity, patch);
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+// Sub-components
+
+function ColumnHeader({ status, opportunities }: { status: OpportunityStatus; opportunities: Opportunity[] }) {
+  const scored = opportunities.filter((o) => o.csio_score !== undefined);
+  const average = scored.length > 0 ? scored.reduce((sum, o) => sum + (o.csio_score ?? 0), 0) / scored.length : null;
+
+  return (
+    <div className="flex items-center justify-between px-3 py-2 border-b">
+      <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${STATUS_COLORS[status]}`}>
+        {status}
+      </span>
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <span title="Work in progress">{opportunities.length} WIP</span>
+        <span title="Average CSIO score">avg {average === null ? "—" : `${Math.round(average * 100)}%`}</span>
+      </div>
+    </div>
+  );
+}
+
+function BoardCard({
+  opportunity,
+  isDragging,
+  onDragStart,
+  onDragEnd,
+}: {
+  opportunity: Opportunity;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", opportunity.id);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className={`p-3 rounded-md border bg-white dark:bg-slate-800 shadow-sm cursor-grab active:cursor-grabbing ${
+        isDragging ? "opacity-40" : "hover:shadow-md"
+      }`}
+    >
+      <Link
+        href={`/opportunities/${opportunity.id}`}
+        draggable={false}
+        className="block font-medium text-sm text-slate-900 dark:text-slate-100 hover:text-blue-600"
+      >
+        {opportunity.name}
+      </Link>
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <span className={priorityColors[opportunity.priority] ?? "text-slate-500"}>{opportunity.priority}</span>
+        {opportunity.csio_score !== undefined && (
+          <span className="font-medium text-slate-600 dark:text-slate-300">
+            {Math.round(opportunity.csio_score * 100)}%
+          </span>
+        )}
+      </div>
+      {opportunity.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {opportunity.tags.slice(0, 3).map((tag) => (
+            <span key={tag} className="text-[10px] px-1.5 py-0.5 bg-slate-100 dark:bg-slate-700 rounded text-slate-600 dark:text-slate-300">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MoveDialog({
+  opportunity,
+  to,
+  onConfirm,
+  onCancel,
+}: {
+  opportunity: Opportunity;
+  to: OpportunityStatus;
+  onConfirm: (patch: Pick<Opportunity, "status" | "status_history">) => void;
+  onCancel: () => void;
+}) {
+  const [rationale, setRationale] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const confirm = () => {
+    const result = transitionStatus(opportunity, to, rationale, new Date(), canMoveOnBoard);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    onConfirm(result.patch);
+  };
+
+  return (
+    <ConfirmDialog
+      open
+      title={`Move to ${to}?`}
+      message={
+        <div className="space-y-2">
+          <p>
+            Why is &quot;{opportunity.name}&quot; moving from <strong>{opportunity.status}</strong> to{" "}
+            <strong>{to}</strong>?
+          </p>
+          <textarea
+            value={rationale}
+            onChange={(e) => setRationale(e.target.value)}
+            placeholder={`At least ${MIN_RATIONALE_LENGTH} characters`}
+            className="w-full px-3 py-2 border rounded-md text-sm min-h-[80px] bg-white dark:bg-slate-900 text-slate-900 dark:text-slate-100"
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      }
+      confirmLabel="Move"
+      onConfirm={confirm}
+      onCancel={onCancel}
+    />
+  );
+}
@@ -4,7 +4,9 @@ import { useState, useEffect } from "react";
 import dynamic from "next/dynamic";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { chartInsightsHandler, detectAnomalies } from "@/lib/ai-service";
+import AIProvenanceBadge from "@/components/AIProvenanceBadge";
+import { chartInsightsHandler, detectAnomalies, type AIProvenance, type OpportunityAnomaly } from "@/lib/ai-service";
+import type { Opportunity } from "@/lib/schemas";
 
 // Dynamically import Syncfusion Charts (client-side only)
 const ChartComponent = dynamic(
@@ -24,22 +26,6 @@ const Inject = dynamic(
   { ssr: false }
 );
 
-interface Opportunity {
-  id: string;
-  name: string;
-  description: string;
-  problem_statement?: string;
-  target_audience?: string;
-  domains: string[];
-  csio_score?: number;
-  priority: string;
-  status: string;
-  tags: string[];
-  created_at: string;
-  updated_at: string;
-  deep_dive_count: number;
-}
-
 interface OpportunityChartsProps {
   opportunities: Opportunity[];
 }
@@ -52,12 +38,13 @@ interface OpportunityChartsProps {
  * - CSIO Score distribution
  * - Status breakdown
  * - Priority distribution
- * - AI-generated insights
+ * - AI-generated insights, badged when they came from the local fallback
  * - Anomaly highlighting
  */
 export default function OpportunityCharts({ opportunities }: OpportunityChartsProps) {
   const [insights, setInsights] = useState<string[]>([]);
-  const [anomalies, setAnomalies] = useState<any[]>([]);
+  const [insightsProvenance, setInsightsProvenance] = useState<AIProvenance | null>(null);
+  const [anomalies, setAnomalies] = useState<OpportunityAnomaly[]>([]);
   const [isLoadingInsights, setIsLoadingInsights] = useState(false);
   const [activeChart, setActiveChart] = useState<"score" | "status" | "priority">("score");
 
@@ -72,7 +59,8 @@ export default function OpportunityCharts({ opportunities }: OpportunityChartsPr
     setIsLoadingInsights(true);
     try {
       const result = await chartInsightsHandler(opportunities);
-      setInsights(result);
+      setInsights(result.data);
+      setInsightsProvenance(result.provenance);
     } catch (error) {
       console.error("Failed to load insights:", error);
     } finally {
@@ -129,6 +117,7 @@ export default function OpportunityCharts({ opportunities }: OpportunityChartsPr
               AI
             </span>
             Insights
+            <AIProvenanceBadge provenance={insightsProvenance} />
           </h3>
           <Button
             variant="ghost"
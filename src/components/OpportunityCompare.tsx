@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { STATUS_COLORS } from "@/lib/opportunity-status";
+import type { Opportunity } from "@/lib/schemas";
+
+export const MAX_COMPARED = 4;
+
+interface OpportunityCompareProps {
+  opportunities: Opportunity[];
+  onClose: () => void;
+}
+
+const ROWS: Array<{ label: string; render: (opportunity: Opportunity) => React.ReactNode }> = [
+  {
+    label: "Status",
+    render: (o) => <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_COLORS[o.status] ?? ""}`}>{o.status}</span>,
+  },
+  { label: "Priority", render: (o) => o.priority },
+  { label: "CSIO", render: (o) => (o.csio_score === undefined ? "—" : `${Math.round(o.csio_score * 100)}%`) },
+  { label: "Problem", render: (o) => o.problem_statement || "—" },
+  { label: "Audience", render: (o) => o.target_audience || "—" },
+  { label: "Tags", render: (o) => (o.tags.length > 0 ? o.tags.join(", ") : "—") },
+  { label: "Domains", render: (o) => (o.domains.length > 0 ? o.domains.join(", ") : "—") },
+  { label: "Deep dives", render: (o) => o.deep_dive_count },
+  { label: "Updated", render: (o) => new Date(o.updated_at).toLocaleDateString() },
+];
+
+/**
+ * Side-by-side comparison of selected opportunities
+ *
+ * Features:
+ * - Up to four opportunities in columns
+ * - Highest CSIO score highlighted
+ * - Escape or clicking the backdrop closes
+ */
+export default function OpportunityCompare({ opportunities, onClose }: OpportunityCompareProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const compared = opportunities.slice(0, MAX_COMPARED);
+  const bestScore = Math.max(...compared.map((o) => o.csio_score ?? -1));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose} role="presentation">
+      <Card
+        className="max-w-5xl w-full max-h-[85vh] overflow-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-title"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 id="compare-title" className="text-lg font-semibold">
+            Compare {compared.length} opportunities
+          </h3>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <table className="w-full text-sm table-fixed">
+          <thead>
+            <tr>
+              <th className="w-28" />
+              {compared.map((opportunity) => (
+                <th key={opportunity.id} className="text-left align-top p-2 font-medium">
+                  <Link href={`/opportunities/${opportunity.id}`} className="hover:text-blue-600">
+                    {opportunity.name}
+                  </Link>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map((row) => (
+              <tr key={row.label} className="border-t">
+                <td className="p-2 text-slate-500 align-top">{row.label}</td>
+                {compared.map((opportunity) => (
+                  <td
+                    key={opportunity.id}
+                    className={`p-2 align-top text-slate-700 dark:text-slate-300 ${
+                      row.label === "CSIO" && bestScore >= 0 && opportunity.csio_score === bestScore
+                        ? "font-semibold text-green-600 dark:text-green-400"
+                        : ""
+                    }`}
+                  >
+                    {row.render(opportunity)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  getOpportunityActivity,
+  getServerOpportunityActivity,
+  previewNotes,
+  subscribeOpportunityActivity,
+} from "@/lib/opportunity-activity";
+import type { Opportunity } from "@/lib/schemas";
+import type { OpportunityAction } from "@/components/OpportunityActionDialog";
+
+interface OpportunityDetailRowProps {
+  opportunity: Opportunity;
+  onAction?: (action: OpportunityAction, opportunity: Opportunity) => void;
+  onEditText?: () => void;
+}
+
+const MAX_INSIGHTS = 3;
+
+/**
+ * Expanded grid row with everything needed to triage an opportunity
+ *
+ * Features:
+ * - Problem, audience, domains and every tag
+ * - Deep dive count and timestamps
+ * - Latest deep-dive insights and a notes preview from this browser
+ * - Quick actions: deep dive, edit text, archive / restore, delete
+ */
+export default function OpportunityDetailRow({ opportunity, onAction, onEditText }: OpportunityDetailRowProps) {
+  const activity = useSyncExternalStore(
+    subscribeOpportunityActivity,
+    getOpportunityActivity,
+    getServerOpportunityActivity
+  );
+  const deepDive = activity.deepDives[opportunity.id];
+  const notes = previewNotes(activity.notes[opportunity.id]);
+
+  return (
+    <div className="grid gap-4 p-4 text-sm md:grid-cols-3 bg-slate-50 dark:bg-slate-900/50">
+      <div className="space-y-3 md:col-span-2">
+        <DetailField label="Problem statement">{opportunity.problem_statement || "Not defined yet"}</DetailField>
+        <DetailField label="Target audience">{opportunity.target_audience || "Not defined yet"}</DetailField>
+
+        <DetailField label={deepDive ? `Latest deep dive - ${deepDive.focus}` : "Latest deep dive"}>
+          {deepDive ? (
+            <>
+              {deepDive.insights.length > 0 ? (
+                <ul className="list-disc pl-4 space-y-0.5">
+                  {deepDive.insights.slice(0, MAX_INSIGHTS).map((insight, i) => (
+                    <li key={i}>{insight}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="line-clamp-2">{deepDive.summary || "No insights recorded"}</p>
+              )}
+              <p className="text-xs text-slate-400 mt-1">{formatTimestamp(deepDive.at)}</p>
+            </>
+          ) : (
+            "No deep dive run from this browser yet"
+          )}
+        </DetailField>
+
+        <DetailField label="Notes">{notes || "No notes yet"}</DetailField>
+      </div>
+
+      <div className="space-y-3">
+        <DetailField label="Domains">
+          <ChipList values={opportunity.domains} empty="No domains" />
+        </DetailField>
+        <DetailField label="Tags">
+          <ChipList values={opportunity.tags} empty="No tags" />
+        </DetailField>
+        <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+          <dt className="text-slate-500">Deep dives</dt>
+          <dd>{opportunity.deep_dive_count}</dd>
+          <dt className="text-slate-500">Created</dt>
+          <dd>{formatTimestamp(opportunity.created_at)}</dd>
+          <dt className="text-slate-500">Updated</dt>
+          <dd>{formatTimestamp(opportunity.updated_at)}</dd>
+        </dl>
+
+        <div className="flex flex-wrap gap-2 pt-1">
+          <Link href={`/opportunities/${opportunity.id}`}>
+            <Button size="sm">Deep Dive →</Button>
+          </Link>
+          {onEditText && (
+            <Button size="sm" variant="outline" onClick={onEditText}>
+              Edit text
+            </Button>
+          )}
+          {onAction && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onAction(opportunity.status === "archived" ? "restore" : "archive", opportunity)}
+              >
+                {opportunity.status === "archived" ? "Restore" : "Archive"}
+              </Button>
+              <Button size="sm" variant="ghost" className="text-red-600" onClick={() => onAction("delete", opportunity)}>
+                Delete
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Sub-components
+
+function DetailField({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">{label}</h4>
+      <div className="text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{children}</div>
+    </div>
+  );
+}
+
+function ChipList({ values, empty }: { values: string[]; empty: string }) {
+  if (values.length === 0) return <span className="text-slate-400">{empty}</span>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.map((value) => (
+        <span key={value} className="text-xs px-2 py-0.5 bg-slate-100 dark:bg-slate-800 rounded text-slate-600 dark:text-slate-300">
+          {value}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "—" : date.toLocaleString();
+}
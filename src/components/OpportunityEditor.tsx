@@ -0,0 +1,427 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { Opportunity } from "@/lib/schemas";
+import type { OpportunityPatch } from "@/lib/opportunities";
+import {
+  MIN_RATIONALE_LENGTH,
+  STATUS_COLORS,
+  getAllowedTransitions,
+  transitionStatus,
+} from "@/lib/opportunity-status";
+
+const PRIORITIES = ["high", "medium", "low"];
+
+type FieldKind = "text" | "textarea" | "list" | "score";
+
+interface OpportunityEditorProps {
+  opportunity: Opportunity;
+  onSave: (patch: OpportunityPatch) => Promise<boolean>; // false when the change was rolled back
+  isSaving?: boolean;
+  saveError?: string | null;
+}
+
+/**
+ * Inline editor for an opportunity on the deep-dive page
+ *
+ * Features:
+ * - Click any field to edit it in place (Enter saves, Escape cancels)
+ * - Tags and domains edited as comma-separated lists
+ * - Status workflow with allowed transitions, a required rationale and history
+ * - Saves are optimistic - the page rolls back and shows the error on failure
+ */
+export default function OpportunityEditor({ opportunity, onSave, isSaving, saveError }: OpportunityEditorProps) {
+  return (
+    <Card className="p-5 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <EditableField
+          kind="text"
+          value={opportunity.name}
+          required
+          placeholder="Opportunity name"
+          className="font-semibold text-lg"
+          onSave={(name) => onSave({ name: name as string })}
+        />
+        {isSaving && <span className="text-xs text-slate-400 whitespace-nowrap">Saving...</span>}
+      </div>
+
+      {saveError && (
+        <div className="p-2 text-xs bg-red-50 border border-red-200 rounded text-red-700 dark:bg-red-950 dark:border-red-900 dark:text-red-300">
+          {saveError}
+        </div>
+      )}
+
+      <FieldSection label="Description">
+        <EditableField
+          kind="textarea"
+          value={opportunity.description}
+          placeholder="Add a description"
+          onSave={(description) => onSave({ description: description as string })}
+        />
+      </FieldSection>
+
+      <FieldSection label="Problem">
+        <EditableField
+          kind="textarea"
+          value={opportunity.problem_statement ?? ""}
+          placeholder="What problem does this solve?"
+          onSave={(problem) => onSave({ problem_statement: problem as string })}
+        />
+      </FieldSection>
+
+      <FieldSection label="Target Audience">
+        <EditableField
+          kind="textarea"
+          value={opportunity.target_audience ?? ""}
+          placeholder="Who has this problem?"
+          onSave={(audience) => onSave({ target_audience: audience as string })}
+        />
+      </FieldSection>
+
+      {opportunity.source_session_id && (
+        <FieldSection label="Origin">
+          <Link
+            href={`/?session=${encodeURIComponent(opportunity.source_session_id)}`}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Parked idea from a Larry session →
+          </Link>
+        </FieldSection>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <FieldSection label="Priority">
+          <select
+            value={opportunity.priority}
+            onChange={(e) => onSave({ priority: e.target.value })}
+            className="text-sm border rounded px-2 py-1 bg-white dark:bg-slate-900"
+          >
+            {PRIORITIES.map((priority) => (
+              <option key={priority} value={priority}>
+                {priority}
+              </option>
+            ))}
+          </select>
+        </FieldSection>
+
+        <FieldSection label="CSIO Score">
+          <EditableField
+            kind="score"
+            value={opportunity.csio_score}
+            placeholder="Not scored"
+            onSave={(score) => onSave({ csio_score: score as number | undefined })}
+          />
+        </FieldSection>
+      </div>
+
+      <FieldSection label="Domains">
+        <EditableField
+          kind="list"
+          value={opportunity.domains}
+          placeholder="Add domains"
+          onSave={(domains) => onSave({ domains: domains as string[] })}
+        />
+      </FieldSection>
+
+      <FieldSection label="Tags">
+        <EditableField
+          kind="list"
+          value={opportunity.tags}
+          placeholder="Add tags"
+          onSave={(tags) => onSave({ tags: tags as string[] })}
+        />
+      </FieldSection>
+
+      <StatusWorkflow opportunity={opportunity} onSave={onSave} />
+    </Card>
+  );
+}
+
+// Sub-components
+
+function FieldSection({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <span className="text-xs text-slate-500 uppercase">{label}</span>
+      <div className="mt-0.5">{children}</div>
+    </div>
+  );
+}
+
+type FieldValue = string | string[] | number | undefined;
+
+function EditableField({
+  kind,
+  value,
+  placeholder,
+  required,
+  className = "text-sm text-slate-700 dark:text-slate-300",
+  onSave,
+}: {
+  kind: FieldKind;
+  value: FieldValue;
+  placeholder: string;
+  required?: boolean;
+  className?: string;
+  onSave: (value: FieldValue) => Promise<boolean>;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(toDraft(kind, value));
+    setError(null);
+  };
+
+  const save = async () => {
+    if (draft === null) return;
+    const parsed = fromDraft(kind, draft);
+    if (parsed.error) {
+      setError(parsed.error);
+      return;
+    }
+    if (required && !draft.trim()) {
+      setError("This field is required");
+      return;
+    }
+    setDraft(null);
+    if (toDraft(kind, parsed.value) !== toDraft(kind, value)) {
+      await onSave(parsed.value);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      setDraft(null);
+    } else if (e.key === "Enter" && (kind !== "textarea" || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      save();
+    }
+  };
+
+  if (draft === null) {
+    const isEmpty = toDraft(kind, value) === "";
+    return (
+      <button
+        onClick={startEditing}
+        title="Click to edit"
+        className={`w-full text-left rounded px-1 -mx-1 hover:bg-slate-100 dark:hover:bg-slate-800 ${className}`}
+      >
+        {isEmpty ? <span className="text-slate-400 italic">{placeholder}</span> : <FieldDisplay kind={kind} value={value} />}
+      </button>
+    );
+  }
+
+  const inputClass = "w-full px-2 py-1 border rounded text-sm bg-white dark:bg-slate-900";
+  return (
+    <div className="space-y-1">
+      {kind === "textarea" ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className={`${inputClass} min-h-[72px]`}
+          autoFocus
+        />
+      ) : (
+        <input
+          type={kind === "score" ? "number" : "text"}
+          min={kind === "score" ? 0 : undefined}
+          max={kind === "score" ? 100 : undefined}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={kind === "list" ? "Comma-separated" : kind === "score" ? "0-100" : undefined}
+          className={inputClass}
+          autoFocus
+        />
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex gap-1">
+        <Button size="sm" className="h-7 text-xs" onClick={save}>
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function FieldDisplay({ kind, value }: { kind: FieldKind; value: FieldValue }) {
+  if (kind === "list") {
+    return (
+      <span className="flex flex-wrap gap-1">
+        {(value as string[]).map((item) => (
+          <span
+            key={item}
+            className="text-xs px-2 py-0.5 bg-slate-100 dark:bg-slate-800 rounded text-slate-600 dark:text-slate-400"
+          >
+            {item}
+          </span>
+        ))}
+      </span>
+    );
+  }
+
+  if (kind === "score") {
+    const score = value as number;
+    return (
+      <span className="flex items-center gap-2">
+        <span className="w-20 h-2 bg-slate-200 rounded-full overflow-hidden">
+          <span
+            className={`block h-full ${score >= 0.8 ? "bg-green-500" : score >= 0.5 ? "bg-yellow-500" : "bg-red-500"}`}
+            style={{ width: `${score * 100}%` }}
+          />
+        </span>
+        <span className="font-medium">{Math.round(score * 100)}%</span>
+      </span>
+    );
+  }
+
+  return <span className="whitespace-pre-wrap">{value as string}</span>;
+}
+
+function StatusWorkflow({
+  opportunity,
+  onSave,
+}: {
+  opportunity: Opportunity;
+  onSave: (patch: OpportunityPatch) => Promise<boolean>;
+}) {
+  const [target, setTarget] = useState<string | null>(null);
+  const [rationale, setRationale] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const allowed = getAllowedTransitions(opportunity.status);
+  const history = opportunity.status_history ?? [];
+
+  const confirm = async () => {
+    if (!target) return;
+    const result = transitionStatus(opportunity, target, rationale);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    if (await onSave(result.patch)) {
+      setTarget(null);
+      setRationale("");
+      setError(null);
+    }
+  };
+
+  return (
+    <div className="pt-3 border-t space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500 uppercase">Status</span>
+        <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_COLORS[opportunity.status] ?? ""}`}>
+          {opportunity.status}
+        </span>
+      </div>
+
+      {allowed.length > 0 && !target && (
+        <div className="flex flex-wrap gap-1">
+          {allowed.map((status) => (
+            <Button
+              key={status}
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              onClick={() => {
+                setTarget(status);
+                setError(null);
+              }}
+            >
+              Move to {status}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {target && (
+        <div className="space-y-1">
+          <label className="block text-xs text-slate-600 dark:text-slate-400">
+            Why move from <strong>{opportunity.status}</strong> to <strong>{target}</strong>?
+          </label>
+          <textarea
+            value={rationale}
+            onChange={(e) => setRationale(e.target.value)}
+            placeholder={`At least ${MIN_RATIONALE_LENGTH} characters`}
+            className="w-full px-2 py-1 border rounded text-sm min-h-[60px] bg-white dark:bg-slate-900"
+            autoFocus
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex gap-1">
+            <Button size="sm" className="h-7 text-xs" onClick={confirm}>
+              Confirm
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => {
+                setTarget(null);
+                setRationale("");
+                setError(null);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+          >
+            {showHistory ? "▾" : "▸"} History ({history.length})
+          </button>
+          {showHistory && (
+            <ol className="mt-1 space-y-1.5">
+              {[...history].reverse().map((entry) => (
+                <li key={`${entry.at}-${entry.to}`} className="text-xs border-l-2 pl-2 border-slate-200 dark:border-slate-700">
+                  <div className="text-slate-700 dark:text-slate-300">
+                    {entry.from} → <strong>{entry.to}</strong>
+                    <span className="text-slate-400"> · {new Date(entry.at).toLocaleDateString()}</span>
+                  </div>
+                  <p className="text-slate-500">{entry.rationale}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Helpers
+
+function toDraft(kind: FieldKind, value: FieldValue): string {
+  if (kind === "list") return ((value as string[] | undefined) ?? []).join(", ");
+  if (kind === "score") return value === undefined ? "" : String(Math.round((value as number) * 100));
+  return (value as string | undefined) ?? "";
+}
+
+function fromDraft(kind: FieldKind, draft: string): { value: FieldValue; error?: string } {
+  if (kind === "list") {
+    const items = draft.split(",").map((item) => item.trim()).filter(Boolean);
+    return { value: [...new Set(items)] };
+  }
+  if (kind === "score") {
+    const percent = Number(draft);
+    if (!draft.trim() || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+      return { value: undefined, error: "Enter a score between 0 and 100" };
+    }
+    return { value: percent / 100 };
+  }
+  return { value: kind === "text" ? draft.trim() : draft };
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_FILTERS,
+  SORT_OPTIONS,
+  STALE_OPTIONS,
+  countActiveFilters,
+  type FacetOption,
+  type FilterFacets,
+  type OpportunityFilters,
+  type OpportunitySort,
+} from "@/lib/opportunity-filters";
+
+interface OpportunityFilterBarProps {
+  filters: OpportunityFilters;
+  facets: FilterFacets;
+  resultCount: number;
+  totalCount: number;
+  onChange: (filters: OpportunityFilters) => void;
+}
+
+type ListFilterKey = "statuses" | "priorities" | "tags" | "domains";
+
+const LIST_FILTERS: Array<{ key: ListFilterKey; label: string }> = [
+  { key: "statuses", label: "Status" },
+  { key: "priorities", label: "Priority" },
+  { key: "tags", label: "Tags" },
+  { key: "domains", label: "Domains" },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Search, filter and sort controls for the Bank of Opportunities
+ *
+ * Features:
+ * - Full-text search over name, description and problem (written to the URL once typing pauses)
+ * - Multi-select menus for status, priority, tags and domains with counts
+ * - CSIO score range
+ * - Last-updated (staleness) filter
+ * - Sort selector and a one-click reset
+ */
+export default function OpportunityFilterBar({
+  filters,
+  facets,
+  resultCount,
+  totalCount,
+  onChange,
+}: OpportunityFilterBarProps) {
+  const activeCount = countActiveFilters(filters);
+  const update = (patch: Partial<OpportunityFilters>) => onChange({ ...filters, ...patch });
+
+  // Keep a custom age from a shared link selectable
+  const staleOptions = STALE_OPTIONS.some((option) => option.value === filters.staleDays)
+    ? STALE_OPTIONS
+    : [...STALE_OPTIONS, { value: filters.staleDays, label: `Stale ${filters.staleDays}+ days` }];
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <SearchInput value={filters.query} onChange={(query) => update({ query })} />
+
+        {LIST_FILTERS.map(({ key, label }) => (
+          <MultiSelect
+            key={key}
+            label={label}
+            options={facets[key]}
+            selected={filters[key]}
+            onChange={(values) => update({ [key]: values })}
+          />
+        ))}
+
+        <ScoreRange
+          min={filters.minScore}
+          max={filters.maxScore}
+          onChange={(minScore, maxScore) => update({ minScore, maxScore })}
+        />
+
+        <select
+          value={filters.staleDays}
+          onChange={(e) => update({ staleDays: Number(e.target.value) })}
+          className="px-2 py-1.5 border rounded-md text-sm bg-white dark:bg-slate-900"
+          aria-label="Last updated"
+        >
+          {staleOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as OpportunitySort })}
+          className="px-2 py-1.5 border rounded-md text-sm bg-white dark:bg-slate-900"
+          aria-label="Sort by"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <span>
+          Showing {resultCount} of {totalCount}
+        </span>
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
+            className="text-blue-600 hover:underline"
+          >
+            Clear {activeCount} filter{activeCount === 1 ? "" : "s"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Sub-components
+
+/**
+ * Typing goes into local state so the input never lags behind navigation
+ */
+function SearchInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const [text, setText] = useState(value);
+  const [syncedValue, setSyncedValue] = useState(value);
+  const [sentValue, setSentValue] = useState(value);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onChangeRef = useRef(onChange);
+
+  // The debounced write must merge into the latest filters, not the ones from the keystroke
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    };
+  }, []);
+
+  // Take the URL's query when it changed elsewhere (clear, saved view, back button)
+  if (value !== syncedValue) {
+    setSyncedValue(value);
+    if (value.trim() !== sentValue.trim()) setText(value);
+  }
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      debounceRef.current = null;
+      setSentValue(next);
+      onChangeRef.current(next);
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  return (
+    <input
+      type="search"
+      value={text}
+      onChange={(e) => handleChange(e.target.value)}
+      placeholder="Search name, description or problem..."
+      className="flex-1 min-w-[220px] px-3 py-1.5 border rounded-md text-sm bg-white dark:bg-slate-900"
+    />
+  );
+}
+
+function MultiSelect({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: FacetOption[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  // Keep selected values listed even if no opportunity currently has them (e.g. from a shared link)
+  const allOptions = [
+    ...options,
+    ...selected.filter((value) => !options.some((option) => option.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value]);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant={selected.length > 0 ? "default" : "outline"}
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        {label}
+        {selected.length > 0 && ` (${selected.length})`} ▾
+      </Button>
+      {isOpen && (
+        <div className="absolute left-0 mt-1 w-56 max-h-64 overflow-auto z-20 rounded-lg border bg-white dark:bg-slate-900 shadow-lg p-1 text-sm">
+          {allOptions.length === 0 ? (
+            <p className="px-2 py-1.5 text-slate-400">Nothing to filter by</p>
+          ) : (
+            allOptions.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                <input type="checkbox" checked={selected.includes(option.value)} onChange={() => toggle(option.value)} />
+                <span className="flex-1 truncate">{option.value}</span>
+                <span className="text-xs text-slate-400">{option.count}</span>
+              </label>
+            ))
+          )}
+          {selected.length > 0 && (
+            <button
+              onClick={() => onChange([])}
+              className="w-full text-left px-2 py-1.5 text-xs text-blue-600 hover:underline"
+            >
+              Clear {label.toLowerCase()}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ScoreRange({ min, max, onChange }: { min: number; max: number; onChange: (min: number, max: number) => void }) {
+  const clamp = (value: string, fallback: number) => {
+    const score = Number(value);
+    return value.trim() === "" || !Number.isFinite(score) ? fallback : Math.min(100, Math.max(0, Math.round(score)));
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-400">
+      <span>CSIO</span>
+      <input
+        type="number"
+        min={0}
+        max={100}
+        value={min}
+        onChange={(e) => onChange(Math.min(clamp(e.target.value, 0), max), max)}
+        className="w-14 px-1.5 py-1 border rounded-md bg-white dark:bg-slate-900"
+        aria-label="Minimum CSIO score"
+      />
+      <span>-</span>
+      <input
+        type="number"
+        min={0}
+        max={100}
+        value={max}
+        onChange={(e) => onChange(min, Math.max(clamp(e.target.value, 100), min))}
+        className="w-14 px-1.5 py-1 border rounded-md bg-white dark:bg-slate-900"
+        aria-label="Maximum CSIO score"
+      />
+      <span>%</span>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import {
@@ -13,53 +13,240 @@ import {
   Page,
   Toolbar,
   Search,
+  Selection,
+  Edit,
+  ExcelExport,
+  PdfExport,
+  Group,
+  Reorder,
+  Resize,
+  ColumnChooser,
+  DetailRow,
   QueryCellInfoEventArgs,
+  type ActionEventArgs,
+  type BeforeBatchSaveArgs,
+  type ColumnModel,
+  type ExcelQueryCellInfoEventArgs,
+  type IEditCell,
+  type PdfQueryCellInfoEventArgs,
 } from "@syncfusion/ej2-react-grids";
+import { MultiSelect } from "@syncfusion/ej2-dropdowns";
+import type { ClickEventArgs } from "@syncfusion/ej2-react-navigations";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import OpportunityCompare, { MAX_COMPARED } from "@/components/OpportunityCompare";
+import OpportunityTextDialog from "@/components/OpportunityTextDialog";
+import OpportunityDetailRow from "@/components/OpportunityDetailRow";
 import { detectAnomalies } from "@/lib/ai-service";
-
-interface Opportunity {
-  id: string;
-  name: string;
-  description: string;
-  problem_statement?: string;
-  target_audience?: string;
-  domains: string[];
-  csio_score?: number;
-  priority: string;
-  status: string;
-  tags: string[];
-  created_at: string;
-  updated_at: string;
-  deep_dive_count: number;
-}
+import { downloadFile } from "@/lib/conversation-export";
+import {
+  BATCH_PRIORITIES,
+  describeBatchEdit,
+  parseTagInput,
+  planBatch,
+  planGridEdits,
+  type BatchEdit,
+  type BatchPlanItem,
+  type BatchRowResult,
+  type RowEdit,
+} from "@/lib/opportunity-batch";
+import {
+  ANOMALY_LABELS,
+  exportFileName,
+  formatExportValue,
+  formatList,
+  neutralizeFormula,
+  toOpportunityCsv,
+} from "@/lib/opportunity-export";
+import {
+  DEFAULT_GRID_LAYOUT,
+  GROUPABLE_COLUMNS,
+  PAGE_SIZES,
+  isGridColumnKey,
+  normalizeLayout,
+  type GridColumnKey,
+  type GridLayout,
+} from "@/lib/grid-views";
+import {
+  MIN_RATIONALE_LENGTH,
+  OPPORTUNITY_STATUSES,
+  STATUS_COLORS,
+  type OpportunityStatus,
+} from "@/lib/opportunity-status";
+import type { Opportunity } from "@/lib/schemas";
+import type { OpportunityAction } from "@/components/OpportunityActionDialog";
 
 interface AnomalyInfo {
   id: string;
   anomalyType: "high_performer" | "needs_attention";
 }
 
-const statusColors: Record<string, string> = {
-  exploring: "bg-blue-100 text-blue-700",
-  validated: "bg-green-100 text-green-700",
-  parked: "bg-yellow-100 text-yellow-700",
-  archived: "bg-gray-100 text-gray-700",
-};
-
 interface OpportunityGridProps {
   data: Opportunity[];
   showAnomalyHighlighting?: boolean;
+  onAction?: (action: OpportunityAction, opportunity: Opportunity) => void; // Archive / restore / delete
+  onSave?: (plan: BatchPlanItem[]) => Promise<BatchRowResult[]>; // Enables selection, batch actions and editing
+  layout?: GridLayout; // Read once on mount - remount the grid (key) to apply another layout
+  onLayoutChange?: (layout: GridLayout) => void;
 }
 
-export default function OpportunityGrid({ data, showAnomalyHighlighting = true }: OpportunityGridProps) {
+// Grid rows carry the domains as one string so they can be sorted, searched and grouped
+type GridRow = Opportunity & { domain: string };
+
+const ANOMALY_HEADER = "AI";
+
+// Grid actions that change what the saved layout records
+const LAYOUT_ACTIONS = ["sorting", "grouping", "ungrouping", "reorder", "columnstate", "paging"];
+
+interface BatchOutcome {
+  label: string;
+  results: BatchRowResult[];
+}
+
+/**
+ * Bank of Opportunities as a Syncfusion DataGrid
+ *
+ * Features:
+ * - Sorting, Excel-style filtering, paging and search
+ * - Column chooser, reorder, resize and grouping, remembered through the layout props
+ * - Excel, CSV and PDF export of the filtered, sorted, visible columns
+ * - AI anomaly highlighting
+ * - Expandable detail rows for triage without leaving the list
+ * - Checkbox selection with batch status, priority, tag and archive actions
+ * - Batch cell editing (priority dropdown, chips for tags) with save / cancel - status changes go through the batch action and its rationale
+ * - Dialog form for the long text fields
+ * - Per-row results when the backend rejects part of a batch or an edit
+ * - Export and side-by-side comparison of the selected rows
+ */
+export default function OpportunityGrid({
+  data,
+  showAnomalyHighlighting = true,
+  onAction,
+  onSave,
+  layout,
+  onLayoutChange,
+}: OpportunityGridProps) {
   const [anomalies, setAnomalies] = useState<AnomalyInfo[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [batchOutcome, setBatchOutcome] = useState<BatchOutcome | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [dirtyCount, setDirtyCount] = useState(0);
+  const [textEditing, setTextEditing] = useState<Opportunity | null>(null);
+  const [initialLayout] = useState(() => normalizeLayout(layout ?? DEFAULT_GRID_LAYOUT));
+  const [groupedBy, setGroupedBy] = useState(initialLayout.group[0] ?? "");
   const gridRef = useRef<GridComponent | null>(null);
 
+  const rows = useMemo<GridRow[]>(
+    () => data.map((o) => ({ ...o, domain: formatList(o.domains) || "No domain" })),
+    [data]
+  );
+
+  // Rows that left the data (filtered out, archived, deleted) drop out of the selection
+  const selected = data.filter((o) => selectedIds.includes(o.id));
+
+  const syncSelection = () => {
+    const records = (gridRef.current?.getSelectedRecords() ?? []) as Opportunity[];
+    setSelectedIds(records.map((record) => record.id));
+  };
+
+  const clearSelection = () => {
+    gridRef.current?.clearSelection();
+    setSelectedIds([]);
+  };
+
+  const runBatch = async (edit: BatchEdit) => {
+    if (!onSave || selected.length === 0) return;
+    setIsApplying(true);
+    try {
+      const results = await onSave(planBatch(selected, edit));
+      setBatchOutcome({ label: describeBatchEdit(edit), results });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const syncDirtyCount = () => {
+    const changes = gridRef.current?.getBatchChanges() as { changedRecords?: unknown[] } | undefined;
+    setDirtyCount(changes?.changedRecords?.length ?? 0);
+  };
+
+  // Save through the opportunities API instead of letting the grid write into its data source
+  const beforeBatchSave = (args: BeforeBatchSaveArgs) => {
+    args.cancel = true;
+    const changedRecords = (args.batchChanges as { changedRecords?: RowEdit[] }).changedRecords ?? [];
+    const plan = planGridEdits(data, changedRecords);
+    gridRef.current?.closeEdit();
+    setDirtyCount(0);
+    if (!onSave || plan.length === 0) return;
+
+    setIsApplying(true);
+    onSave(plan)
+      .then((results) => setBatchOutcome({ label: "Saved edits", results }))
+      .finally(() => setIsApplying(false));
+  };
+
+  const toolbarClick = (args: ClickEventArgs) => {
+    const grid = gridRef.current;
+    const id = args.item.id ?? "";
+    if (!grid) return;
+
+    // Skip the checkbox and action columns - everything else that's visible goes out as shown
+    const columns = grid
+      .getVisibleColumns()
+      .filter((column) => column.type !== "checkbox" && (column.field || column.headerText === ANOMALY_HEADER));
+
+    if (id.endsWith("_excelexport")) grid.excelExport({ fileName: exportFileName("xlsx"), columns });
+    else if (id.endsWith("_csvexport")) grid.csvExport({ fileName: exportFileName("csv"), columns });
+    else if (id.endsWith("_pdfexport")) {
+      grid.pdfExport({ fileName: exportFileName("pdf"), columns, pageOrientation: "Landscape" });
+    }
+  };
+
+  const exportQueryCellInfo = (args: ExcelQueryCellInfoEventArgs | PdfQueryCellInfoEventArgs) => {
+    const opportunity = args.data as Opportunity;
+    if (args.column?.headerText === ANOMALY_HEADER) {
+      const anomaly = getAnomalyInfo(opportunity.id);
+      args.value = anomaly ? ANOMALY_LABELS[anomaly.anomalyType] : "";
+      return;
+    }
+    const value = formatExportValue(args.column?.field, opportunity);
+    if (value !== undefined) args.value = value;
+  };
+
+  // Excel and CSV open in a spreadsheet, so text mustn't run as a formula there
+  const excelQueryCellInfo = (args: ExcelQueryCellInfoEventArgs) => {
+    exportQueryCellInfo(args);
+    if (typeof args.value === "string") args.value = neutralizeFormula(args.value);
+  };
+
+  const reportLayout = () => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    setGroupedBy(grid.groupSettings.columns?.[0] ?? "");
+    onLayoutChange?.(readLayout(grid));
+  };
+
+  const actionComplete = (args: ActionEventArgs) => {
+    if (args.requestType && LAYOUT_ACTIONS.includes(args.requestType)) reportLayout();
+  };
+
+  const groupBy = (field: string) => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    grid.clearGrouping();
+    if (field) grid.groupColumn(field);
+  };
+
+  const exportSelected = () => {
+    downloadFile("opportunities-selected.csv", toOpportunityCsv(selected), "text/csv");
+  };
+
   // Detect anomalies when data changes
   useEffect(() => {
     if (showAnomalyHighlighting && data.length > 0) {
       detectAnomalies(data).then((result) => {
         setAnomalies(
-          result.map((item: any) => ({
+          result.map((item) => ({
             id: item.id,
             anomalyType: item.anomalyType,
           }))
@@ -96,7 +283,7 @@ export default function OpportunityGrid({ data, showAnomalyHighlighting = true }
   };
 
   const statusTemplate = (props: Opportunity) => (
-    <span className={`text-xs px-2 py-1 rounded-full ${statusColors[props.status]}`}>
+    <span className={`text-xs px-2 py-1 rounded-full ${STATUS_COLORS[props.status]}`}>
       {props.status}
     </span>
   );
@@ -124,28 +311,63 @@ export default function OpportunityGrid({ data, showAnomalyHighlighting = true }
     );
   };
 
-  const tagsTemplate = (props: Opportunity) => (
-    <div className="flex flex-wrap gap-1">
-      {props.tags.slice(0, 2).map((tag) => (
-        <span
-          key={tag}
-          className="text-xs px-2 py-0.5 bg-slate-100 rounded text-slate-600"
+  const descriptionTemplate = (props: Opportunity) => (
+    <div className="flex items-center gap-1">
+      <span className="flex-1 truncate" title={props.description}>
+        {props.description}
+      </span>
+      {onSave && (
+        <button
+          onClick={() => setTextEditing(props)}
+          className="shrink-0 text-xs text-blue-600 hover:underline"
+          aria-label={`Edit text for ${props.name}`}
         >
-          {tag}
-        </span>
-      ))}
-      {props.tags.length > 2 && (
-        <span className="text-xs text-slate-400">+{props.tags.length - 2}</span>
+          Edit
+        </button>
       )}
     </div>
   );
 
+  const detailTemplate = (props: GridRow) => (
+    <OpportunityDetailRow
+      opportunity={props}
+      onAction={onAction}
+      onEditText={onSave ? () => setTextEditing(props) : undefined}
+    />
+  );
+
+  const tagsTemplate = (props: Opportunity) => <ChipPreview values={props.tags} />;
+
+  const domainsTemplate = (props: Opportunity) => <ChipPreview values={props.domains} />;
+
   const actionsTemplate = (props: Opportunity) => (
-    <Link href={`/opportunities/${props.id}`}>
-      <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-700">
-        Deep Dive →
-      </Button>
-    </Link>
+    <div className="flex items-center justify-center gap-1">
+      <Link href={`/opportunities/${props.id}`}>
+        <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-700">
+          Deep Dive →
+        </Button>
+      </Link>
+      {onAction && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-slate-500"
+            onClick={() => onAction(props.status === "archived" ? "restore" : "archive", props)}
+          >
+            {props.status === "archived" ? "Restore" : "Archive"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => onAction("delete", props)}
+          >
+            Delete
+          </Button>
+        </>
+      )}
+    </div>
   );
 
   // AI Insight indicator column
@@ -176,6 +398,79 @@ export default function OpportunityGrid({ data, showAnomalyHighlighting = true }
     );
   };
 
+  // Column definitions by layout key - order, visibility and width come from the layout
+  const columns: Record<GridColumnKey, ColumnModel | null> = {
+    anomaly: showAnomalyHighlighting
+      ? { uid: "anomaly", headerText: ANOMALY_HEADER, width: 80, template: aiInsightTemplate, textAlign: "Center", allowEditing: false }
+      : null,
+    name: {
+      field: "name",
+      headerText: "Opportunity",
+      width: 200,
+      textAlign: "Left",
+      validationRules: { required: true, minLength: 3 },
+    },
+    description: {
+      field: "description",
+      headerText: "Description",
+      width: 220,
+      template: descriptionTemplate,
+      textAlign: "Left",
+      allowEditing: false,
+    },
+    status: {
+      field: "status",
+      headerText: "Status",
+      width: 100,
+      template: statusTemplate,
+      textAlign: "Center",
+      allowEditing: false, // Status moves need a rationale - use the batch "Change status" action
+    },
+    priority: {
+      field: "priority",
+      headerText: "Priority",
+      width: 90,
+      textAlign: "Center",
+      editType: "dropdownedit",
+      edit: { params: { dataSource: [...BATCH_PRIORITIES], popupHeight: "200px" } },
+    },
+    csio_score: {
+      field: "csio_score",
+      headerText: "CSIO",
+      width: 120,
+      template: clarityTemplate,
+      textAlign: "Center",
+      editType: "numericedit",
+      edit: { params: { min: 0, max: 1, step: 0.05, decimals: 2, format: "n2" } },
+      validationRules: { min: 0, max: 1 },
+    },
+    tags: {
+      field: "tags",
+      headerText: "Tags",
+      width: 180,
+      template: tagsTemplate,
+      textAlign: "Left",
+      allowGrouping: false,
+      edit: createTagsEditor(() => [...new Set(data.flatMap((o) => o.tags))].sort()),
+    },
+    domain: {
+      field: "domain",
+      headerText: "Domain",
+      width: 150,
+      template: domainsTemplate,
+      textAlign: "Left",
+      allowEditing: false,
+    },
+    actions: {
+      uid: "actions",
+      headerText: "Action",
+      width: onAction ? 260 : 100,
+      template: actionsTemplate,
+      textAlign: "Center",
+      allowEditing: false,
+    },
+  };
+
   return (
     <div>
       {/* Anomaly Legend */}
@@ -198,75 +493,361 @@ export default function OpportunityGrid({ data, showAnomalyHighlighting = true }
         </div>
       )}
 
+      {onSave && selected.length > 0 && (
+        <BatchToolbar
+          selected={selected}
+          isApplying={isApplying}
+          onApply={runBatch}
+          onExport={exportSelected}
+          onCompare={() => setIsComparing(true)}
+          onClear={clearSelection}
+        />
+      )}
+
+      {batchOutcome && <BatchResults outcome={batchOutcome} onDismiss={() => setBatchOutcome(null)} />}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-xs text-slate-500">
+        <span>
+          {onSave &&
+            (dirtyCount > 0 ? (
+              <span className="text-amber-600 font-medium">
+                {dirtyCount} {dirtyCount === 1 ? "row has" : "rows have"} unsaved changes - Update to save, Cancel to
+                discard
+              </span>
+            ) : (
+              "Double-click a cell to edit it"
+            ))}
+        </span>
+        <label className="flex items-center gap-1">
+          Group by
+          <select
+            value={groupedBy}
+            onChange={(e) => groupBy(e.target.value)}
+            className="px-2 py-1 border rounded-md bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200"
+          >
+            <option value="">None</option>
+            {GROUPABLE_COLUMNS.map((column) => (
+              <option key={column.field} value={column.field}>
+                {column.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
       <GridComponent
         ref={gridRef}
-        dataSource={data}
+        dataSource={rows}
         allowPaging={true}
         allowSorting={true}
         allowFiltering={true}
+        allowGrouping={true}
+        allowReordering={true}
+        allowResizing={true}
+        showColumnChooser={true}
         filterSettings={{ type: "Excel" }}
-        pageSettings={{ pageSize: 10 }}
-        toolbar={["Search"]}
+        pageSettings={{ pageSize: initialLayout.pageSize, pageSizes: PAGE_SIZES }}
+        sortSettings={{ columns: initialLayout.sort }}
+        groupSettings={{ columns: initialLayout.group, showDropArea: true }}
+        actionComplete={actionComplete}
+        resizeStop={reportLayout}
+        toolbar={[
+          ...(onSave ? ["Update", "Cancel"] : []),
+          "ColumnChooser",
+          "ExcelExport",
+          "CsvExport",
+          "PdfExport",
+          "Search",
+        ]}
+        toolbarClick={toolbarClick}
+        allowExcelExport={true}
+        allowPdfExport={true}
+        excelQueryCellInfo={excelQueryCellInfo}
+        pdfQueryCellInfo={exportQueryCellInfo}
         height="400"
         rowDataBound={rowDataBound}
+        detailTemplate={detailTemplate}
+        selectionSettings={{ type: "Multiple", checkboxOnly: true, persistSelection: true }}
+        rowSelected={syncSelection}
+        rowDeselected={syncSelection}
+        editSettings={{ allowEditing: !!onSave, mode: "Batch", showConfirmDialog: true }}
+        beforeBatchSave={beforeBatchSave}
+        cellSaved={syncDirtyCount}
+        batchCancel={() => setDirtyCount(0)}
       >
         <ColumnsDirective>
-          {showAnomalyHighlighting && (
-            <ColumnDirective
-              headerText="AI"
-              width="80"
-              template={aiInsightTemplate}
-              textAlign="Center"
-            />
-          )}
-          <ColumnDirective
-            field="name"
-            headerText="Opportunity"
-            width="200"
-            textAlign="Left"
-          />
-          <ColumnDirective
-            field="description"
-            headerText="Description"
-            width="220"
-            textAlign="Left"
-          />
-          <ColumnDirective
-            field="status"
-            headerText="Status"
-            width="100"
-            template={statusTemplate}
-            textAlign="Center"
-          />
-          <ColumnDirective
-            field="priority"
-            headerText="Priority"
-            width="90"
-            textAlign="Center"
-          />
-          <ColumnDirective
-            field="csio_score"
-            headerText="CSIO"
-            width="120"
-            template={clarityTemplate}
-            textAlign="Center"
-          />
-          <ColumnDirective
-            field="tags"
-            headerText="Tags"
-            width="150"
-            template={tagsTemplate}
-            textAlign="Left"
-          />
-          <ColumnDirective
-            headerText="Action"
-            width="100"
-            template={actionsTemplate}
-            textAlign="Center"
-          />
+          {onSave && <ColumnDirective type="checkbox" width="50" showInColumnChooser={false} />}
+          <ColumnDirective field="id" isPrimaryKey={true} visible={false} showInColumnChooser={false} />
+          {initialLayout.columns.map(({ key, visible, width }) => {
+            const column = columns[key];
+            return column && <ColumnDirective key={key} {...column} visible={visible} width={width ?? column.width} />;
+          })}
         </ColumnsDirective>
-        <Inject services={[Sort, Filter, Page, Toolbar, Search]} />
+        <Inject
+          services={[
+            Sort,
+            Filter,
+            Page,
+            Toolbar,
+            Search,
+            Selection,
+            Edit,
+            ExcelExport,
+            PdfExport,
+            Group,
+            Reorder,
+            Resize,
+            ColumnChooser,
+            DetailRow,
+          ]}
+        />
       </GridComponent>
+
+      {isComparing && <OpportunityCompare opportunities={selected} onClose={() => setIsComparing(false)} />}
+      {onSave && textEditing && (
+        <OpportunityTextDialog opportunity={textEditing} onSave={onSave} onClose={() => setTextEditing(null)} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Current columns, sort, grouping and page size - checkbox and key columns aren't part of the layout
+ */
+function readLayout(grid: GridComponent): GridLayout {
+  return normalizeLayout({
+    columns: grid.getColumns().flatMap((column) => {
+      const key = column.field || column.uid;
+      return isGridColumnKey(key)
+        ? [{ key, visible: column.visible !== false, width: parseFloat(String(column.width)) || undefined }]
+        : [];
+    }),
+    sort: grid.sortSettings.columns ?? [],
+    group: grid.groupSettings.columns ?? [],
+    pageSize: grid.pageSettings.pageSize,
+  });
+}
+
+/**
+ * Chip editor for the tags cell - existing tags as suggestions, new ones typed in
+ */
+function createTagsEditor(getSuggestions: () => string[]): IEditCell {
+  let multiSelect: MultiSelect | null = null;
+  return {
+    create: () => document.createElement("input"),
+    read: () => (multiSelect?.value as string[] | undefined) ?? [],
+    write: (args: { rowData: Opportunity; element: HTMLElement }) => {
+      multiSelect = new MultiSelect({
+        dataSource: getSuggestions(),
+        value: [...args.rowData.tags],
+        mode: "Box",
+        allowCustomValue: true,
+        placeholder: "Add tags",
+      });
+      multiSelect.appendTo(args.element);
+    },
+    destroy: () => {
+      multiSelect?.destroy();
+      multiSelect = null;
+    },
+  };
+}
+
+// Sub-components
+
+function ChipPreview({ values }: { values: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.slice(0, 2).map((value) => (
+        <span key={value} className="text-xs px-2 py-0.5 bg-slate-100 rounded text-slate-600">
+          {value}
+        </span>
+      ))}
+      {values.length > 2 && <span className="text-xs text-slate-400">+{values.length - 2}</span>}
+    </div>
+  );
+}
+
+function BatchToolbar({
+  selected,
+  isApplying,
+  onApply,
+  onExport,
+  onCompare,
+  onClear,
+}: {
+  selected: Opportunity[];
+  isApplying: boolean;
+  onApply: (edit: BatchEdit) => void;
+  onExport: () => void;
+  onCompare: () => void;
+  onClear: () => void;
+}) {
+  const [tagInput, setTagInput] = useState("");
+  const [statusTarget, setStatusTarget] = useState<OpportunityStatus | null>(null);
+  const [rationale, setRationale] = useState("");
+  const [rationaleError, setRationaleError] = useState<string | null>(null);
+  const [isConfirmingArchive, setIsConfirmingArchive] = useState(false);
+
+  const tags = parseTagInput(tagInput);
+  const count = `${selected.length} ${selected.length === 1 ? "opportunity" : "opportunities"}`;
+
+  const closeStatusDialog = () => {
+    setStatusTarget(null);
+    setRationale("");
+    setRationaleError(null);
+  };
+
+  const confirmStatus = () => {
+    if (!statusTarget) return;
+    if (rationale.trim().length < MIN_RATIONALE_LENGTH) {
+      setRationaleError(`Add a rationale of at least ${MIN_RATIONALE_LENGTH} characters.`);
+      return;
+    }
+    onApply({ kind: "status", to: statusTarget, rationale });
+    closeStatusDialog();
+  };
+
+  const applyTags = (kind: "add_tags" | "remove_tags") => {
+    onApply({ kind, tags });
+    setTagInput("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 p-2 rounded-lg bg-blue-50 dark:bg-blue-950/40 text-sm">
+      <span className="font-medium text-slate-700 dark:text-slate-200">{selected.length} selected</span>
+      <button onClick={onClear} className="text-xs text-blue-600 hover:underline">
+        Clear
+      </button>
+      <span className="w-px h-5 bg-slate-300 dark:bg-slate-700" />
+
+      <select
+        value=""
+        onChange={(e) => setStatusTarget(e.target.value as OpportunityStatus)}
+        disabled={isApplying}
+        className="px-2 py-1 border rounded-md bg-white dark:bg-slate-900"
+        aria-label="Change status"
+      >
+        <option value="">Change status…</option>
+        {OPPORTUNITY_STATUSES.filter((status) => status !== "archived").map((status) => (
+          <option key={status} value={status}>
+            {status}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => onApply({ kind: "priority", priority: e.target.value })}
+        disabled={isApplying}
+        className="px-2 py-1 border rounded-md bg-white dark:bg-slate-900"
+        aria-label="Set priority"
+      >
+        <option value="">Set priority…</option>
+        {BATCH_PRIORITIES.map((priority) => (
+          <option key={priority} value={priority}>
+            {priority}
+          </option>
+        ))}
+      </select>
+
+      <input
+        value={tagInput}
+        onChange={(e) => setTagInput(e.target.value)}
+        placeholder="tag, another tag"
+        className="w-36 px-2 py-1 border rounded-md bg-white dark:bg-slate-900"
+        aria-label="Tags"
+      />
+      <Button variant="outline" size="sm" disabled={isApplying || tags.length === 0} onClick={() => applyTags("add_tags")}>
+        Add tags
+      </Button>
+      <Button variant="outline" size="sm" disabled={isApplying || tags.length === 0} onClick={() => applyTags("remove_tags")}>
+        Remove tags
+      </Button>
+
+      <span className="w-px h-5 bg-slate-300 dark:bg-slate-700" />
+      <Button variant="outline" size="sm" disabled={isApplying} onClick={() => setIsConfirmingArchive(true)}>
+        Archive
+      </Button>
+      <Button variant="outline" size="sm" onClick={onExport}>
+        Export CSV
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={selected.length < 2 || selected.length > MAX_COMPARED}
+        onClick={onCompare}
+        title={`Select 2-${MAX_COMPARED} opportunities to compare`}
+      >
+        Compare
+      </Button>
+      {isApplying && <span className="text-xs text-slate-500">Applying…</span>}
+
+      <ConfirmDialog
+        open={statusTarget !== null}
+        title={`Move ${count} to ${statusTarget}?`}
+        message={
+          <div className="space-y-2">
+            <p>Rows the status workflow doesn&apos;t allow will be skipped and listed afterwards.</p>
+            <textarea
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              placeholder={`Why? At least ${MIN_RATIONALE_LENGTH} characters`}
+              className="w-full px-3 py-2 border rounded-md text-sm min-h-[80px] bg-white dark:bg-slate-900 text-slate-900 dark:text-slate-100"
+            />
+            {rationaleError && <p className="text-xs text-red-600">{rationaleError}</p>}
+          </div>
+        }
+        confirmLabel="Move"
+        onConfirm={confirmStatus}
+        onCancel={closeStatusDialog}
+      />
+      <ConfirmDialog
+        open={isConfirmingArchive}
+        title={`Archive ${count}?`}
+        message="Archived opportunities leave the main list and analytics. You can restore them from the Archived view."
+        confirmLabel="Archive"
+        onConfirm={() => {
+          setIsConfirmingArchive(false);
+          onApply({ kind: "archive" });
+        }}
+        onCancel={() => setIsConfirmingArchive(false)}
+      />
+    </div>
+  );
+}
+
+function BatchResults({ outcome, onDismiss }: { outcome: BatchOutcome; onDismiss: () => void }) {
+  const failed = outcome.results.filter((result) => !result.ok);
+  const succeeded = outcome.results.length - failed.length;
+
+  return (
+    <div
+      role="status"
+      className={`mb-3 p-3 rounded-lg border text-sm ${
+        failed.length > 0
+          ? "border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40"
+          : "border-green-300 bg-green-50 dark:border-green-800 dark:bg-green-950/40"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">
+          {outcome.label}: {succeeded} updated
+          {failed.length > 0 && `, ${failed.length} failed`}
+        </span>
+        <button onClick={onDismiss} aria-label="Dismiss" className="text-slate-400 hover:text-slate-600">
+          ✕
+        </button>
+      </div>
+      <ul className="mt-2 space-y-1 max-h-40 overflow-auto">
+        {outcome.results.map((result) => (
+          <li key={result.id} className="flex gap-2">
+            <span className={result.ok ? "text-green-600" : "text-red-600"}>{result.ok ? "✓" : "✗"}</span>
+            <span className="font-medium">{result.name}</span>
+            {result.error && <span className="text-slate-500">- {result.error}</span>}
+          </li>
+        ))}
+      </ul>
     </div>
   );
 }
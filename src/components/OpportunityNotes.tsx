@@ -3,17 +3,12 @@
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-
-interface Block {
-  id: string;
-  type: "text" | "heading" | "bullet" | "quote" | "code" | "ai-insight";
-  content: string;
-}
+import type { NoteBlock } from "@/lib/opportunity-activity";
 
 interface OpportunityNotesProps {
   opportunityId: string;
-  initialBlocks?: Block[];
-  onSave?: (blocks: Block[]) => void;
+  initialBlocks?: NoteBlock[];
+  onSave?: (blocks: NoteBlock[]) => void;
 }
 
 /**
@@ -31,7 +26,7 @@ export default function OpportunityNotes({
   initialBlocks = [],
   onSave,
 }: OpportunityNotesProps) {
-  const [blocks, setBlocks] = useState<Block[]>(
+  const [blocks, setBlocks] = useState<NoteBlock[]>(
     initialBlocks.length > 0
       ? initialBlocks
       : [{ id: "1", type: "text", content: "" }]
@@ -49,8 +44,8 @@ export default function OpportunityNotes({
 
   const generateId = () => `block-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-  const addBlock = (afterId: string, type: Block["type"] = "text") => {
-    const newBlock: Block = { id: generateId(), type, content: "" };
+  const addBlock = (afterId: string, type: NoteBlock["type"] = "text") => {
+    const newBlock: NoteBlock = { id: generateId(), type, content: "" };
     const index = blocks.findIndex((b) => b.id === afterId);
     const newBlocks = [...blocks];
     newBlocks.splice(index + 1, 0, newBlock);
@@ -68,7 +63,7 @@ export default function OpportunityNotes({
     setBlocks(blocks.map((b) => (b.id === id ? { ...b, content } : b)));
   };
 
-  const changeBlockType = (id: string, type: Block["type"]) => {
+  const changeBlockType = (id: string, type: NoteBlock["type"]) => {
     setBlocks(blocks.map((b) => (b.id === id ? { ...b, type } : b)));
     setShowBlockMenu(false);
   };
@@ -89,7 +84,7 @@ export default function OpportunityNotes({
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent, block: Block) => {
+  const handleKeyDown = (e: React.KeyboardEvent, block: NoteBlock) => {
     // Enter: Create new block
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -117,7 +112,7 @@ export default function OpportunityNotes({
   };
 
   const addAIInsight = (insight: string) => {
-    const newBlock: Block = {
+    const newBlock: NoteBlock = {
       id: generateId(),
       type: "ai-insight",
       content: insight,
@@ -125,7 +120,7 @@ export default function OpportunityNotes({
     setBlocks([...blocks, newBlock]);
   };
 
-  const renderBlockContent = (block: Block) => {
+  const renderBlockContent = (block: NoteBlock) => {
     const commonProps = {
       ref: (el: HTMLTextAreaElement | HTMLInputElement | null) => {
         if (el) inputRefs.current.set(block.id, el);
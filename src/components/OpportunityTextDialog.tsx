@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { planRowEdit, type BatchPlanItem, type BatchRowResult } from "@/lib/opportunity-batch";
+import type { Opportunity } from "@/lib/schemas";
+
+interface OpportunityTextDialogProps {
+  opportunity: Opportunity;
+  onSave: (plan: BatchPlanItem[]) => Promise<BatchRowResult[]>;
+  onClose: () => void;
+}
+
+const TEXT_FIELDS = [
+  { field: "description", label: "Description", rows: 4 },
+  { field: "problem_statement", label: "Problem statement", rows: 4 },
+  { field: "target_audience", label: "Target audience", rows: 2 },
+] as const;
+
+type TextDraft = Record<(typeof TEXT_FIELDS)[number]["field"], string>;
+
+/**
+ * Dialog form for the long text fields the grid is too narrow to edit in place
+ *
+ * Features:
+ * - Description, problem statement and target audience
+ * - Saves straight through the opportunities API
+ * - Keeps the draft open with the server's reason when the save is rejected
+ */
+export default function OpportunityTextDialog({ opportunity, onSave, onClose }: OpportunityTextDialogProps) {
+  const [draft, setDraft] = useState<TextDraft>({
+    description: opportunity.description,
+    problem_statement: opportunity.problem_statement ?? "",
+    target_audience: opportunity.target_audience ?? "",
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const handleSave = async () => {
+    const item = planRowEdit(opportunity, draft);
+    if (!item) return onClose();
+    if (!item.ok) return setError(item.error);
+
+    setIsSaving(true);
+    setError(null);
+    const [result] = await onSave([item]);
+    setIsSaving(false);
+    if (result?.ok) onClose();
+    else setError(result?.error ?? "Couldn't save - please try again.");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose} role="presentation">
+      <Card
+        className="max-w-lg w-full p-6 gap-3"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="text-dialog-title"
+      >
+        <h3 id="text-dialog-title" className="text-lg font-semibold">
+          Edit &quot;{opportunity.name}&quot;
+        </h3>
+        {TEXT_FIELDS.map(({ field, label, rows }) => (
+          <label key={field} className="block text-sm">
+            <span className="text-slate-600 dark:text-slate-400">{label}</span>
+            <textarea
+              value={draft[field]}
+              onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+              rows={rows}
+              className="mt-1 w-full px-3 py-2 border rounded-md text-sm bg-white dark:bg-slate-900"
+            />
+          </label>
+        ))}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving…" : "Save"}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
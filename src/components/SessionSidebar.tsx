@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  listSessions,
+  listSessionsOnServer,
+  subscribeSessions,
+  renameSession,
+  setSessionArchived,
+  SessionSummary,
+} from "@/lib/session-store";
+
+interface SessionSidebarProps {
+  activeSessionId: string;
+  disabled?: boolean;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+  onDelete: (sessionId: string) => void;
+}
+
+/**
+ * Session Sidebar for parallel Larry conversations
+ *
+ * Lists stored problem explorations with their latest clarity.
+ * Features:
+ * - Create and switch sessions
+ * - Inline rename
+ * - Archive / restore
+ * - Delete with confirmation
+ */
+export default function SessionSidebar({
+  activeSessionId,
+  disabled = false,
+  onSelect,
+  onNew,
+  onDelete,
+}: SessionSidebarProps) {
+  const sessions = useSyncExternalStore(subscribeSessions, listSessions, listSessionsOnServer);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const activeSessions = sessions.filter((s) => !s.archived);
+  const archivedSessions = sessions.filter((s) => s.archived);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-600 dark:text-slate-400 uppercase tracking-wide">
+          Sessions
+        </h2>
+        <Button size="sm" variant="outline" onClick={onNew} disabled={disabled}>
+          + New
+        </Button>
+      </div>
+
+      {activeSessions.length === 0 && (
+        <p className="text-xs text-slate-400 italic">
+          Your conversations with Larry will show up here.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        {activeSessions.map((session) => (
+          <SessionItem
+            key={session.sessionId}
+            session={session}
+            isActive={session.sessionId === activeSessionId}
+            disabled={disabled}
+            onSelect={onSelect}
+            onDelete={onDelete}
+          />
+        ))}
+      </div>
+
+      {archivedSessions.length > 0 && (
+        <div className="pt-3 border-t">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+          >
+            {showArchived ? "▾" : "▸"} Archived ({archivedSessions.length})
+          </button>
+          {showArchived && (
+            <div className="space-y-1 mt-2 opacity-75">
+              {archivedSessions.map((session) => (
+                <SessionItem
+                  key={session.sessionId}
+                  session={session}
+                  isActive={session.sessionId === activeSessionId}
+                  disabled={disabled}
+                  onSelect={onSelect}
+                  onDelete={onDelete}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Sub-components
+
+function SessionItem({
+  session,
+  isActive,
+  disabled,
+  onSelect,
+  onDelete,
+}: {
+  session: SessionSummary;
+  isActive: boolean;
+  disabled: boolean;
+  onSelect: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+}) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState("");
+  const title = session.customTitle || session.title;
+
+  const startRename = () => {
+    setDraftTitle(title);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    renameSession(session.sessionId, draftTitle);
+    setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete "${title}"? This removes the transcript from this browser.`)) {
+      onDelete(session.sessionId);
+    }
+  };
+
+  return (
+    <div
+      className={`group rounded-lg p-2 transition-colors ${
+        isActive
+          ? "bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800"
+          : "hover:bg-slate-100 dark:hover:bg-slate-800 border border-transparent"
+      }`}
+    >
+      {isRenaming ? (
+        <input
+          autoFocus
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") setIsRenaming(false);
+          }}
+          className="w-full px-2 py-1 text-sm border rounded bg-background"
+        />
+      ) : (
+        <button
+          onClick={() => onSelect(session.sessionId)}
+          disabled={disabled}
+          className="w-full text-left disabled:cursor-not-allowed"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-slate-700 dark:text-slate-300 truncate">{title}</p>
+            <span className={`text-xs font-medium flex-shrink-0 ${getClarityTextColor(session.clarity)}`}>
+              {session.clarity}%
+            </span>
+          </div>
+          <p className="text-xs text-slate-400">{formatUpdatedAt(session.updatedAt)}</p>
+        </button>
+      )}
+
+      {!isRenaming && (
+        <div className="flex gap-2 mt-1 text-xs text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={startRename} className="hover:text-blue-600">
+            Rename
+          </button>
+          <button
+            onClick={() => setSessionArchived(session.sessionId, !session.archived)}
+            className="hover:text-blue-600"
+          >
+            {session.archived ? "Restore" : "Archive"}
+          </button>
+          <button onClick={handleDelete} disabled={disabled} className="hover:text-red-600">
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function getClarityTextColor(pct: number) {
+  if (pct >= 80) return "text-green-600";
+  if (pct >= 50) return "text-yellow-600";
+  if (pct >= 25) return "text-orange-600";
+  return "text-red-600";
+}
+
+function formatUpdatedAt(iso: string) {
+  const date = new Date(iso);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
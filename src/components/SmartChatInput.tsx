@@ -8,7 +8,9 @@ interface SmartChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
+  onStop?: () => void;
   disabled?: boolean;
+  isStreaming?: boolean;
   placeholder?: string;
   userRole?: string;
 }
@@ -22,12 +24,15 @@ interface SmartChatInputProps {
  * - Tab to accept suggestion
  * - Escape to dismiss
  * - Debounced API calls
+ * - Stop button while a reply is streaming
  */
 export default function SmartChatInput({
   value,
   onChange,
   onSend,
+  onStop,
   disabled = false,
+  isStreaming = false,
   placeholder = "What's on your mind?",
   userRole = "entrepreneur exploring a business opportunity",
 }: SmartChatInputProps) {
@@ -47,7 +52,7 @@ export default function SmartChatInput({
 
     setIsLoadingSuggestion(true);
     try {
-      const result = await smartTextAreaHandler({
+      const { data: result } = await smartTextAreaHandler({
         userInput: text,
         userRole,
       });
@@ -174,14 +179,24 @@ export default function SmartChatInput({
           )}
         </div>
 
-        {/* Send button */}
-        <Button
-          onClick={onSend}
-          disabled={!value.trim() || disabled}
-          className="h-[52px] px-6 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-        >
-          {disabled ? "..." : "Send"}
-        </Button>
+        {/* Send / Stop button */}
+        {isStreaming && onStop ? (
+          <Button
+            onClick={onStop}
+            variant="outline"
+            className="h-[52px] px-6"
+          >
+            Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={onSend}
+            disabled={!value.trim() || disabled}
+            className="h-[52px] px-6 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            {disabled ? "..." : "Send"}
+          </Button>
+        )}
       </div>
 
       {/* Helper text */}
@@ -3,11 +3,14 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { smartPasteHandler, SmartPasteResult } from "@/lib/ai-service";
+import AIProvenanceBadge from "@/components/AIProvenanceBadge";
+import { smartPasteHandler, SmartPasteResult, type AIProvenance } from "@/lib/ai-service";
 
 interface SmartPasteFormProps {
   onOpportunityCreated: (data: SmartPasteResult) => void;
   onCancel: () => void;
+  initialData?: SmartPasteResult; // Skip the paste step and review these values
+  sourceLabel?: string;
 }
 
 /**
@@ -15,19 +18,26 @@ interface SmartPasteFormProps {
  *
  * Allows users to paste research notes, competitor info, or any text
  * and AI extracts structured opportunity data.
+ * Can also open prefilled (e.g. banking a parked idea from a Larry session).
  */
-export default function SmartPasteForm({ onOpportunityCreated, onCancel }: SmartPasteFormProps) {
+export default function SmartPasteForm({
+  onOpportunityCreated,
+  onCancel,
+  initialData,
+  sourceLabel = "AI Extracted",
+}: SmartPasteFormProps) {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [extractedData, setExtractedData] = useState<SmartPasteResult | null>(null);
-  const [editMode, setEditMode] = useState(false);
+  const [extractedData, setExtractedData] = useState<SmartPasteResult | null>(initialData ?? null);
+  const [editMode, setEditMode] = useState(!!initialData);
+  const [provenance, setProvenance] = useState<AIProvenance | null>(null);
 
   // Form fields for editing
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [problemStatement, setProblemStatement] = useState("");
-  const [targetAudience, setTargetAudience] = useState("");
-  const [tags, setTags] = useState<string[]>([]);
-  const [priority, setPriority] = useState("medium");
+  const [title, setTitle] = useState(initialData?.title || "");
+  const [description, setDescription] = useState(initialData?.description || "");
+  const [problemStatement, setProblemStatement] = useState(initialData?.problem_statement || "");
+  const [targetAudience, setTargetAudience] = useState(initialData?.target_audience || "");
+  const [tags, setTags] = useState<string[]>(initialData?.tags || []);
+  const [priority, setPriority] = useState(initialData?.priority || "medium");
   const [tagInput, setTagInput] = useState("");
 
   const handlePaste = async (e: React.ClipboardEvent) => {
@@ -36,8 +46,10 @@ export default function SmartPasteForm({ onOpportunityCreated, onCancel }: Smart
 
     setIsProcessing(true);
     try {
-      const result = await smartPasteHandler(clipboardText);
+      const extraction = await smartPasteHandler(clipboardText);
+      const result = extraction.data;
       setExtractedData(result);
+      setProvenance(extraction.provenance);
 
       // Populate form fields
       setTitle(result.title || "");
@@ -63,8 +75,10 @@ export default function SmartPasteForm({ onOpportunityCreated, onCancel }: Smart
       }
 
       setIsProcessing(true);
-      const result = await smartPasteHandler(text);
+      const extraction = await smartPasteHandler(text);
+      const result = extraction.data;
       setExtractedData(result);
+      setProvenance(extraction.provenance);
 
       setTitle(result.title || "");
       setDescription(result.description || "");
@@ -155,9 +169,13 @@ export default function SmartPasteForm({ onOpportunityCreated, onCancel }: Smart
     <Card className="p-6">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold">Review & Edit Opportunity</h3>
-        <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded-full">
-          AI Extracted
-        </span>
+        {provenance?.source === "local" ? (
+          <AIProvenanceBadge provenance={provenance} className="text-xs px-2 py-1" />
+        ) : (
+          <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded-full">
+            {sourceLabel}
+          </span>
+        )}
       </div>
 
       <div className="space-y-4">
@@ -256,9 +274,11 @@ export default function SmartPasteForm({ onOpportunityCreated, onCancel }: Smart
 
       {/* Actions */}
       <div className="flex justify-end gap-2 mt-6">
-        <Button variant="outline" onClick={() => setEditMode(false)}>
-          Back
-        </Button>
+        {!initialData && (
+          <Button variant="outline" onClick={() => setEditMode(false)}>
+            Back
+          </Button>
+        )}
         <Button variant="outline" onClick={onCancel}>
           Cancel
         </Button>
@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const DEFAULT_DURATION_MS = 6_000;
+
+export interface UndoToastOptions {
+  message: string;
+  onUndo: () => void;
+  onCommit?: () => void; // Runs when the undo window closes (e.g. the deferred DELETE)
+}
+
+interface ActiveToast extends UndoToastOptions {
+  id: number;
+}
+
+/**
+ * State for one undo toast at a time
+ * Showing a new toast, leaving the page or letting the timer run out commits the previous one
+ */
+export function useUndoToast(durationMs = DEFAULT_DURATION_MS) {
+  const [toast, setToast] = useState<ActiveToast | null>(null);
+  const currentRef = useRef<ActiveToast | null>(null);
+
+  const commit = useCallback(() => {
+    const current = currentRef.current;
+    currentRef.current = null;
+    setToast(null);
+    current?.onCommit?.();
+  }, []);
+
+  const showToast = useCallback((options: UndoToastOptions) => {
+    const previous = currentRef.current;
+    const next = { ...options, id: Date.now() };
+    currentRef.current = next;
+    setToast(next);
+    previous?.onCommit?.();
+  }, []);
+
+  const undo = useCallback(() => {
+    const current = currentRef.current;
+    currentRef.current = null;
+    setToast(null);
+    current?.onUndo();
+  }, []);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(commit, durationMs);
+    return () => clearTimeout(timer);
+  }, [toast, commit, durationMs]);
+
+  // Don't lose a pending action when the user navigates away
+  useEffect(() => {
+    const flush = () => {
+      const current = currentRef.current;
+      currentRef.current = null;
+      current?.onCommit?.();
+    };
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, []);
+
+  return { toast, showToast, undo, dismiss: commit };
+}
+
+interface UndoToastProps {
+  toast: { id: number; message: string } | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Bottom-of-screen notice with an Undo button
+ *
+ * Features:
+ * - Pairs with useUndoToast for timing and commit
+ * - Dismiss commits the action right away
+ */
+export default function UndoToast({ toast, onUndo, onDismiss }: UndoToastProps) {
+  if (!toast) return null;
+
+  return (
+    <div
+      key={toast.id}
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg bg-slate-900 text-white text-sm dark:bg-slate-100 dark:text-slate-900"
+    >
+      <span>{toast.message}</span>
+      <button onClick={onUndo} className="font-semibold text-blue-300 hover:text-blue-200 dark:text-blue-600">
+        Undo
+      </button>
+      <button onClick={onDismiss} aria-label="Dismiss" className="text-slate-400 hover:text-slate-200 dark:hover:text-slate-600">
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * AI Fallback Stats
+ *
+ * Counts, for this browser session, how often AI features were answered by the
+ * backend and how often they fell back to local heuristics.
+ * - Fed by every handler in src/lib/ai-service
+ * - Subscribable for useSyncExternalStore
+ * - Kept in sessionStorage so it survives reloads but not new tabs
+ */
+
+import type { AIProvenance } from "@/lib/ai-service";
+
+export interface AIFallbackStats {
+  remote: number;
+  fallbacks: number;
+  lastError?: string;
+  lastFallbackAt?: number;
+}
+
+const STORAGE_KEY = "mindrian:ai-fallback-stats";
+const EMPTY_STATS: AIFallbackStats = { remote: 0, fallbacks: 0 };
+
+let stats: AIFallbackStats | null = null;
+const listeners = new Set<() => void>();
+
+export function getAIFallbackStats(): AIFallbackStats {
+  if (!stats) stats = loadStats();
+  return stats;
+}
+
+export function getServerAIFallbackStats(): AIFallbackStats {
+  return EMPTY_STATS;
+}
+
+export function subscribeAIFallbackStats(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Count one AI result - offline-mode answers without an error aren't backend failures
+ */
+export function recordAIResult(provenance: AIProvenance): void {
+  const current = getAIFallbackStats();
+  if (provenance.error) {
+    stats = {
+      ...current,
+      fallbacks: current.fallbacks + 1,
+      lastError: provenance.error,
+      lastFallbackAt: Date.now(),
+    };
+  } else if (provenance.source === "remote") {
+    stats = { ...current, remote: current.remote + 1 };
+  } else {
+    return;
+  }
+
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+  } catch {
+    // Counting still works for this page without storage
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function resetAIFallbackStats(): void {
+  stats = EMPTY_STATS;
+  try {
+    window.sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function loadStats(): AIFallbackStats {
+  if (typeof window === "undefined") return EMPTY_STATS;
+  try {
+    const stored = window.sessionStorage.getItem(STORAGE_KEY);
+    if (!stored) return EMPTY_STATS;
+    const parsed = JSON.parse(stored);
+    return {
+      remote: Number(parsed.remote) || 0,
+      fallbacks: Number(parsed.fallbacks) || 0,
+      lastError: typeof parsed.lastError === "string" ? parsed.lastError : undefined,
+      lastFallbackAt: typeof parsed.lastFallbackAt === "number" ? parsed.lastFallbackAt : undefined,
+    };
+  } catch {
+    return EMPTY_STATS;
+  }
+}
@@ -7,9 +7,15 @@
  * - Smart Paste (extract opportunity data from clipboard)
  * - Text-to-Diagram (visualize problem spaces)
  * - AI Chart insights
+ *
+ * Every handler falls back to local heuristics when the backend fails and
+ * returns provenance so the UI can tell model output from heuristic output.
  */
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://mindrian-api.onrender.com";
+import { api, isApiError } from "@/lib/api-client";
+import { recordAIResult } from "@/lib/ai-fallback-stats";
+import { isOfflineMode } from "@/lib/offline-mode";
+import type { Opportunity } from "@/lib/schemas";
 
 export interface AIServiceSettings {
   userInput: string;
@@ -38,53 +44,61 @@ export interface DiagramConnection {
   label?: string;
 }
 
+export interface OpportunityAnomaly extends Opportunity {
+  anomalyType: "high_performer" | "needs_attention";
+}
+
 export interface DiagramResult {
   nodes: DiagramNode[];
   connections: DiagramConnection[];
   mermaidCode: string;
 }
 
+export type AIResultSource = "remote" | "local";
+
+/**
+ * Where an AI result came from
+ */
+export interface AIProvenance {
+  source: AIResultSource; // "local" = heuristic fallback or offline mode
+  latencyMs: number;
+  error?: string; // Why the backend call failed, when it did
+}
+
+export interface AIResult<T> {
+  data: T;
+  provenance: AIProvenance;
+}
+
 /**
  * AI Suggestion Handler for Smart TextArea
  * Provides Larry-style completions that help users articulate their problems
  */
-export async function smartTextAreaHandler(settings: AIServiceSettings): Promise<string> {
+export async function smartTextAreaHandler(settings: AIServiceSettings): Promise<AIResult<string>> {
   const { userInput, userRole = "entrepreneur exploring a business opportunity" } = settings;
 
   // Don't suggest for very short inputs
   if (userInput.length < 10) {
-    return "";
+    return { data: "", provenance: { source: "local", latencyMs: 0 } };
   }
 
-  try {
-    const response = await fetch(`${API_URL}/api/v1/ai/autocomplete`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
+  return withFallback(
+    "Smart TextArea",
+    () =>
+      api.ai.autocomplete({
         input: userInput,
         role: userRole,
         style: "larry", // Larry's clarifying style
       }),
-    });
-
-    if (!response.ok) {
-      // Fallback to local suggestions
-      return getLocalSuggestion(userInput);
-    }
-
-    const data = await response.json();
-    return data.suggestion || "";
-  } catch (error) {
-    console.error("Smart TextArea AI error:", error);
-    return getLocalSuggestion(userInput);
-  }
+    () => getLocalSuggestion(userInput)
+  );
 }
 
 /**
  * Local fallback suggestions when API is unavailable
  * Based on Larry's problem clarification patterns
  */
-function getLocalSuggestion(input: string): string {
+export function getLocalSuggestion(input: string): string {
   const lowerInput = input.toLowerCase();
 
   // Problem statement patterns
@@ -114,32 +128,18 @@ function getLocalSuggestion(input: string): string {
  * Smart Paste Handler
  * Extracts structured opportunity data from pasted text
  */
-export async function smartPasteHandler(clipboardText: string): Promise<SmartPasteResult> {
-  try {
-    const response = await fetch(`${API_URL}/api/v1/ai/extract-opportunity`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text: clipboardText,
-      }),
-    });
-
-    if (!response.ok) {
-      return extractLocalOpportunity(clipboardText);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error("Smart Paste AI error:", error);
-    return extractLocalOpportunity(clipboardText);
-  }
+export async function smartPasteHandler(clipboardText: string): Promise<AIResult<SmartPasteResult>> {
+  return withFallback(
+    "Smart Paste",
+    () => api.ai.extractOpportunity(clipboardText),
+    () => extractLocalOpportunity(clipboardText)
+  );
 }
 
 /**
  * Local extraction fallback
  */
-function extractLocalOpportunity(text: string): SmartPasteResult {
+export function extractLocalOpportunity(text: string): SmartPasteResult {
   const lines = text.split("\n").filter(l => l.trim());
 
   // Try to extract structure from the text
@@ -180,33 +180,18 @@ function extractLocalOpportunity(text: string): SmartPasteResult {
  * Text to Diagram Handler
  * Converts problem descriptions into visual diagrams
  */
-export async function textToDiagramHandler(text: string, diagramType: "flowchart" | "mindmap" = "flowchart"): Promise<DiagramResult> {
-  try {
-    const response = await fetch(`${API_URL}/api/v1/ai/text-to-diagram`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        type: diagramType,
-      }),
-    });
-
-    if (!response.ok) {
-      return generateLocalDiagram(text, diagramType);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error("Text to Diagram AI error:", error);
-    return generateLocalDiagram(text, diagramType);
-  }
+export async function textToDiagramHandler(text: string, diagramType: "flowchart" | "mindmap" = "flowchart"): Promise<AIResult<DiagramResult>> {
+  return withFallback(
+    "Text to Diagram",
+    () => api.ai.textToDiagram(text, diagramType),
+    () => generateLocalDiagram(text, diagramType)
+  );
 }
 
 /**
  * Generate a simple diagram locally
  */
-function generateLocalDiagram(text: string, type: "flowchart" | "mindmap"): DiagramResult {
+export function generateLocalDiagram(text: string, type: "flowchart" | "mindmap"): DiagramResult {
   // Extract key phrases
   const sentences = text.split(/[.!?]/).filter(s => s.trim().length > 10);
 
@@ -292,27 +277,15 @@ function generateMermaidFlowchart(nodes: DiagramNode[], connections: DiagramConn
  * AI Chart Insights Handler
  * Generates insights from opportunity data
  */
-export async function chartInsightsHandler(opportunities: any[]): Promise<string[]> {
-  try {
-    const response = await fetch(`${API_URL}/api/v1/ai/chart-insights`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ opportunities }),
-    });
-
-    if (!response.ok) {
-      return generateLocalInsights(opportunities);
-    }
-
-    const data = await response.json();
-    return data.insights || [];
-  } catch (error) {
-    console.error("Chart Insights AI error:", error);
-    return generateLocalInsights(opportunities);
-  }
+export async function chartInsightsHandler(opportunities: Opportunity[]): Promise<AIResult<string[]>> {
+  return withFallback(
+    "Chart Insights",
+    () => api.ai.chartInsights(opportunities),
+    () => generateLocalInsights(opportunities)
+  );
 }
 
-function generateLocalInsights(opportunities: any[]): string[] {
+export function generateLocalInsights(opportunities: Opportunity[]): string[] {
   const insights: string[] = [];
 
   if (opportunities.length === 0) {
@@ -336,7 +309,7 @@ function generateLocalInsights(opportunities: any[]): string[] {
 
   // Find highest scoring
   const highest = opportunities.reduce((max, o) => (o.csio_score || 0) > (max.csio_score || 0) ? o : max, opportunities[0]);
-  if (highest && highest.csio_score >= 0.8) {
+  if (highest?.csio_score !== undefined && highest.csio_score >= 0.8) {
     insights.push(`"${highest.name}" shows highest potential at ${(highest.csio_score * 100).toFixed(0)}%`);
   }
 
@@ -347,7 +320,7 @@ function generateLocalInsights(opportunities: any[]): string[] {
  * Anomaly Detection for DataGrid
  * Identifies unusual patterns in opportunities
  */
-export async function detectAnomalies(opportunities: any[]): Promise<any[]> {
+export async function detectAnomalies(opportunities: Opportunity[]): Promise<OpportunityAnomaly[]> {
   // Calculate statistics
   const scores = opportunities.map(o => o.csio_score || 0);
   const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
@@ -359,10 +332,50 @@ export async function detectAnomalies(opportunities: any[]): Promise<any[]> {
     return Math.abs(score - mean) > 2 * stdDev;
   }).map(o => ({
     ...o,
-    anomalyType: (o.csio_score || 0) > mean ? "high_performer" : "needs_attention"
+    anomalyType: (o.csio_score || 0) > mean ? "high_performer" as const : "needs_attention" as const
   }));
 }
 
+/**
+ * Try the backend, fall back to the local helper, and record which one answered
+ */
+async function withFallback<T>(label: string, remote: () => Promise<T>, local: () => T): Promise<AIResult<T>> {
+  const startedAt = Date.now();
+  let result: AIResult<T>;
+  try {
+    const data = await remote();
+    // The offline mock backend answers with the same local heuristics
+    result = { data, provenance: { source: isOfflineMode() ? "local" : "remote", latencyMs: Date.now() - startedAt } };
+  } catch (error) {
+    console.error(`${label} AI error:`, error);
+    result = {
+      data: local(),
+      provenance: { source: "local", latencyMs: Date.now() - startedAt, error: describeFailure(error) },
+    };
+  }
+  recordAIResult(result.provenance);
+  return result;
+}
+
+function describeFailure(error: unknown): string {
+  if (isApiError(error)) {
+    switch (error.kind) {
+      case "timeout":
+        return "The AI service timed out";
+      case "network":
+        return "Couldn't reach the AI service";
+      case "http":
+        return `The AI service returned an error (${error.status})`;
+      case "schema":
+      case "parse":
+        return "The AI service sent an unexpected response";
+      default:
+        return error.message;
+    }
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
 export default {
   smartTextAreaHandler,
   smartPasteHandler,
@@ -0,0 +1,334 @@
+/**
+ * Mindrian API Client
+ *
+ * Single typed entry point for every call to the Agno backend.
+ * - Request timeouts
+ * - Retry with exponential backoff for transient failures
+ * - AbortController cancellation
+ * - Consistent ApiError objects (http / timeout / network / aborted / parse / schema)
+ * - Every endpoint validates its payload against src/lib/schemas
+ * - Optional connection monitor that queues requests while the backend wakes up
+ * - Offline mode routes every request to the in-browser mock backend
+ * - Optional same-origin mode through the Next.js API proxy (NEXT_PUBLIC_USE_API_PROXY=1)
+ */
+
+import { isOfflineMode } from "@/lib/offline-mode";
+import type { ProxyErrorCode } from "@/lib/backend-proxy";
+
+import {
+  SchemaError,
+  parseSessionResponse,
+  parseChatResponse,
+  parseOpportunity,
+  parseOpportunityList,
+  parseCreatedOpportunity,
+  parseDeepDiveResponse,
+  parseSmartPasteResult,
+  parseDiagramResult,
+  parseInsights,
+  parseSuggestion,
+  type Opportunity,
+} from "@/lib/schemas";
+
+// Same-origin mode goes through the route handlers in src/app/api, which hold the backend URL and credentials
+const USE_API_PROXY = process.env.NEXT_PUBLIC_USE_API_PROXY === "1";
+
+export const API_URL = USE_API_PROXY ? "" : process.env.NEXT_PUBLIC_API_URL || "https://mindrian-api.onrender.com";
+const HEALTH_PATH = USE_API_PROXY ? "/api/health" : "/health";
+
+const DEFAULT_TIMEOUT_MS = 30_000; // The backend can take a while to wake up
+const RETRY_BASE_DELAY_MS = 500;
+
+export type ApiErrorKind = "http" | "timeout" | "network" | "aborted" | "parse" | "schema";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly path: string;
+  readonly body?: unknown;
+
+  constructor(kind: ApiErrorKind, path: string, message: string, status?: number, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.path = path;
+    this.status = status;
+    this.body = body;
+  }
+
+  /**
+   * Worth trying again - the server was unreachable, slow or overloaded
+   */
+  get isRetryable(): boolean {
+    if (this.kind === "network" || this.kind === "timeout") return true;
+    return this.kind === "http" && (this.status === 429 || (this.status ?? 0) >= 500);
+  }
+
+  /**
+   * Why the same-origin proxy failed, when the request went through it
+   */
+  get proxyCode(): ProxyErrorCode | undefined {
+    if (typeof this.body !== "object" || this.body === null) return undefined;
+    const code = (this.body as { code?: unknown }).code;
+    return typeof code === "string" ? (code as ProxyErrorCode) : undefined;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * FastAPI validation errors come back as { detail: string | [{ msg }] }
+ */
+export function describeRejection(body: unknown): string | undefined {
+  if (typeof body !== "object" || body === null) return undefined;
+  const detail = (body as { detail?: unknown }).detail;
+  if (typeof detail === "string") return detail;
+  if (Array.isArray(detail)) {
+    return detail.map((item) => (typeof item?.msg === "string" ? item.msg : String(item))).join("; ");
+  }
+  return undefined;
+}
+
+export interface RequestOptions<T = unknown> {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number; // Defaults to 2 for GET, 0 otherwise - only retry requests that are safe to repeat
+  parse?: (value: unknown) => T; // Schema check; throws SchemaError on a bad payload
+  monitored?: boolean; // Queue behind and report to the connection monitor (default true)
+}
+
+/**
+ * Hook for the connection monitor - see src/lib/connection-status
+ */
+export interface ConnectionMonitor {
+  waitUntilReachable: (signal?: AbortSignal) => Promise<void>;
+  report: (reachable: boolean) => void;
+}
+
+let connectionMonitor: ConnectionMonitor | null = null;
+
+export function registerConnectionMonitor(monitor: ConnectionMonitor | null): void {
+  connectionMonitor = monitor;
+}
+
+/**
+ * Make a request, parse the JSON response and validate it
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+  const response = await apiFetch(path, options);
+
+  // No content still goes through the parser, which decides whether that's acceptable
+  let json: unknown;
+  try {
+    json = response.status === 204 ? undefined : await response.json();
+  } catch {
+    throw new ApiError("parse", path, `Invalid JSON from ${path}`, response.status);
+  }
+
+  if (!options.parse) return json as T;
+  try {
+    return options.parse(json);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    throw new ApiError("schema", path, `Unexpected response from ${path}: ${error.message}`, response.status, error.issues);
+  }
+}
+
+/**
+ * Make a request and return the raw Response once headers arrive
+ * The timeout and the caller's signal only cover the wait for headers, so long streams aren't cut off -
+ * a caller reading a body should cancel it on abort itself (see src/lib/chat-stream)
+ */
+export async function apiFetch(path: string, options: RequestOptions<unknown> = {}): Promise<Response> {
+  const method = options.method ?? "GET";
+  const retries = options.retries ?? (method === "GET" ? 2 : 0);
+  const monitor = options.monitored === false ? null : connectionMonitor;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await monitor?.waitUntilReachable(options.signal);
+      const response = await fetchOnce(path, options);
+      monitor?.report(true);
+      return response;
+    } catch (error) {
+      if (isApiError(error) && error.kind !== "aborted") {
+        monitor?.report(!isUnreachable(error));
+      }
+      const canRetry = isApiError(error) && error.isRetryable && attempt < retries;
+      if (!canRetry) throw error;
+      await wait(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+    }
+  }
+}
+
+async function fetchOnce(path: string, options: RequestOptions<unknown>): Promise<Response> {
+  const { method = "GET", body, headers, signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+  if (signal?.aborted) {
+    throw new ApiError("aborted", path, "Request was cancelled");
+  }
+
+  // One controller for both the caller's signal and the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener("abort", forwardAbort);
+
+  let response: Response;
+  try {
+    const init: RequestInit = {
+      method,
+      headers: body !== undefined ? { "Content-Type": "application/json", ...headers } : headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    };
+    response = isOfflineMode()
+      ? await (await import("@/lib/mock-backend")).mockFetch(path, init)
+      : await fetch(`${API_URL}${path}`, init);
+  } catch {
+    if (timedOut) throw new ApiError("timeout", path, `Request to ${path} timed out after ${timeoutMs / 1000}s`);
+    if (signal?.aborted) throw new ApiError("aborted", path, "Request was cancelled");
+    throw new ApiError("network", path, `Couldn't reach the server for ${path}`);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", forwardAbort);
+  }
+
+  if (!response.ok) {
+    const errorBody = await readErrorBody(response);
+    throw new ApiError("http", path, `${method} ${path} failed with status ${response.status}`, response.status, errorBody);
+  }
+
+  return response;
+}
+
+/**
+ * Errors that mean the backend itself isn't answering (Render returns 502-504 while it spins up)
+ */
+function isUnreachable(error: ApiError): boolean {
+  if (error.kind === "network" || error.kind === "timeout") return true;
+  if (error.kind !== "http") return false;
+  if (error.proxyCode === "upstream_unreachable" || error.proxyCode === "upstream_timeout") return true;
+  return [502, 503, 504].includes(error.status ?? 0);
+}
+
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError("aborted", "", "Request was cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Endpoints
+
+/**
+ * Saved transcript mirrored to the backend by the session store's sync hook
+ */
+export interface SessionSnapshot {
+  messages: Array<{ role: "user" | "assistant"; content: string }>;
+  session_data: unknown;
+  updated_at: string;
+}
+
+export interface ChatRequest {
+  session_id: string;
+  message: string;
+  history?: Array<{ role: "user" | "assistant"; content: string }>;
+}
+
+export const api = {
+  health: {
+    check: (signal?: AbortSignal) =>
+      apiFetch(HEALTH_PATH, { signal, timeoutMs: 60_000, retries: 0, monitored: false }),
+  },
+
+  sessions: {
+    create: (body: { agent_type: string; session_id?: string }, signal?: AbortSignal) =>
+      apiRequest("/api/v1/sessions", { method: "POST", body, signal, parse: parseSessionResponse }),
+    save: (id: string, body: SessionSnapshot, signal?: AbortSignal) =>
+      apiFetch(`/api/v1/sessions/${encodeURIComponent(id)}`, { method: "PUT", body, signal }).then(() => undefined),
+  },
+
+  chat: {
+    send: (body: ChatRequest, signal?: AbortSignal) =>
+      apiRequest("/api/v1/chat", { method: "POST", body, signal, timeoutMs: 90_000, parse: parseChatResponse }),
+    stream: (body: ChatRequest, signal?: AbortSignal) =>
+      apiFetch("/api/v1/chat/stream", {
+        method: "POST",
+        body,
+        signal,
+        timeoutMs: 90_000,
+        headers: { Accept: "text/event-stream" },
+      }),
+  },
+
+  opportunities: {
+    list: (signal?: AbortSignal) =>
+      apiRequest("/api/v1/opportunities", { signal, parse: parseOpportunityList }),
+    get: (id: string, signal?: AbortSignal) =>
+      apiRequest(`/api/v1/opportunities/${encodeURIComponent(id)}`, {
+        signal,
+        parse: (value): Opportunity => parseOpportunity(value),
+      }),
+    create: (body: unknown, signal?: AbortSignal) =>
+      apiRequest("/api/v1/opportunities", { method: "POST", body, signal, parse: parseCreatedOpportunity }),
+    update: (id: string, body: unknown, signal?: AbortSignal) =>
+      apiRequest(`/api/v1/opportunities/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        body,
+        signal,
+        parse: (value): Opportunity => parseOpportunity(value),
+      }),
+    // Some backends answer 200 with an empty body, so only the status matters
+    delete: (id: string, signal?: AbortSignal) =>
+      apiFetch(`/api/v1/opportunities/${encodeURIComponent(id)}`, { method: "DELETE", signal }).then(() => undefined),
+    deepDive: (id: string, focus: string, signal?: AbortSignal) =>
+      apiRequest(`/api/v1/opportunities/${encodeURIComponent(id)}/deep-dive`, {
+        method: "POST",
+        body: { opportunity_id: id, focus },
+        signal,
+        timeoutMs: 90_000,
+        parse: parseDeepDiveResponse,
+      }),
+  },
+
+  ai: {
+    autocomplete: (body: { input: string; role: string; style: string }, signal?: AbortSignal) =>
+      apiRequest("/api/v1/ai/autocomplete", { method: "POST", body, signal, timeoutMs: 5_000, parse: parseSuggestion }),
+    extractOpportunity: (text: string, signal?: AbortSignal) =>
+      apiRequest("/api/v1/ai/extract-opportunity", { method: "POST", body: { text }, signal, parse: parseSmartPasteResult }),
+    textToDiagram: (text: string, type: string, signal?: AbortSignal) =>
+      apiRequest("/api/v1/ai/text-to-diagram", { method: "POST", body: { text, type }, signal, parse: parseDiagramResult }),
+    chartInsights: (opportunities: Opportunity[], signal?: AbortSignal) =>
+      apiRequest("/api/v1/ai/chart-insights", { method: "POST", body: { opportunities }, signal, parse: parseInsights }),
+  },
+};
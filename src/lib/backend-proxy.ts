@@ -0,0 +1,134 @@
+/**
+ * Backend Proxy
+ *
+ * Server-side half of the same-origin API: route handlers under src/app/api
+ * forward to the Agno backend through here.
+ * - Backend URL and credentials stay on the server
+ * - Streams responses straight through (chat uses server-sent events)
+ * - Logs and times every request, exposed via Server-Timing
+ * - Uniform JSON errors: { detail, code, upstream_status? }
+ */
+
+const BACKEND_URL = (
+  process.env.AGNO_API_URL ||
+  process.env.NEXT_PUBLIC_API_URL ||
+  "https://mindrian-api.onrender.com"
+).replace(/\/+$/, "");
+const BACKEND_API_KEY = process.env.AGNO_API_KEY;
+
+const UPSTREAM_TIMEOUT_MS = 120_000; // Covers a cold start plus a slow first token
+
+// Only these headers travel from the browser to the backend and back
+const FORWARDED_REQUEST_HEADERS = ["accept", "content-type", "accept-language"];
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "cache-control", "retry-after"];
+
+export type ProxyErrorCode = "not_found" | "upstream_timeout" | "upstream_unreachable" | "upstream_error";
+
+/**
+ * Same JSON error shape for everything the proxy rejects or fails to reach
+ */
+export function proxyError(status: number, code: ProxyErrorCode, detail: unknown, upstreamStatus?: number): Response {
+  return Response.json(
+    { detail, code, ...(upstreamStatus !== undefined && { upstream_status: upstreamStatus }) },
+    { status }
+  );
+}
+
+/**
+ * Forward a route handler's request to `path` on the backend
+ */
+export async function proxyRequest(request: Request, path: string): Promise<Response> {
+  const startedAt = Date.now();
+  const search = new URL(request.url).search;
+  const target = `${BACKEND_URL}${path}${search}`;
+
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  if (BACKEND_API_KEY) headers.set("Authorization", `Bearer ${BACKEND_API_KEY}`);
+
+  // Stop waiting on the backend if the browser goes away or it never answers
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, UPSTREAM_TIMEOUT_MS);
+  request.signal.addEventListener("abort", () => controller.abort());
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      method: request.method,
+      headers,
+      body: hasBody(request.method) ? await request.arrayBuffer() : undefined,
+      signal: controller.signal,
+      cache: "no-store",
+    });
+  } catch (error) {
+    const elapsed = Date.now() - startedAt;
+    if (timedOut) {
+      logRequest(request.method, path, 504, elapsed, "timed out");
+      return proxyError(504, "upstream_timeout", `The backend didn't answer within ${UPSTREAM_TIMEOUT_MS / 1000}s`);
+    }
+    logRequest(request.method, path, 502, elapsed, error instanceof Error ? error.message : "unreachable");
+    return proxyError(502, "upstream_unreachable", "Couldn't reach the backend");
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const elapsed = Date.now() - startedAt;
+  logRequest(request.method, path, upstream.status, elapsed);
+
+  if (!upstream.ok) {
+    const detail = await readErrorDetail(upstream);
+    return proxyError(upstream.status, "upstream_error", detail, upstream.status);
+  }
+
+  const responseHeaders = new Headers({ "Server-Timing": `upstream;dur=${elapsed}` });
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+  if (upstream.headers.get("content-type")?.includes("text/event-stream")) {
+    // Keep intermediaries from buffering the stream
+    responseHeaders.set("Cache-Control", "no-cache, no-transform");
+    responseHeaders.set("X-Accel-Buffering", "no");
+  }
+
+  return new Response(upstream.body, { status: upstream.status, headers: responseHeaders });
+}
+
+function hasBody(method: string): boolean {
+  return !["GET", "HEAD", "DELETE"].includes(method);
+}
+
+/**
+ * Keep the backend's own message when it sends one (FastAPI uses `detail`)
+ */
+async function readErrorDetail(response: Response): Promise<unknown> {
+  const fallback = `Backend responded with status ${response.status}`;
+  try {
+    const text = await response.text();
+    try {
+      const body = JSON.parse(text);
+      // Validation errors (422) carry a list of { loc, msg } - pass it on for describeRejection
+      return body?.detail ?? fallback;
+    } catch {
+      return text.trim().slice(0, 500) || fallback;
+    }
+  } catch {
+    return fallback;
+  }
+}
+
+function logRequest(method: string, path: string, status: number, elapsedMs: number, note?: string) {
+  const line = `[api proxy] ${method} ${path} -> ${status} in ${elapsedMs}ms${note ? ` (${note})` : ""}`;
+  if (status >= 500) {
+    console.error(line);
+  } else {
+    console.info(line);
+  }
+}
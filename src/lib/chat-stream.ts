@@ -0,0 +1,192 @@
+/**
+ * Larry Chat Streaming
+ *
+ * Streams Larry's replies token-by-token from the Agno backend.
+ * - Server-Sent Events from /api/v1/chat/stream
+ * - Plain chunked text responses from the same endpoint
+ * - Falls back to the blocking /api/v1/chat JSON response
+ * - Structured session metadata from a `metadata` event or response field
+ * - Optional transcript history so a branched conversation keeps its context
+ */
+
+import { api, isApiError } from "@/lib/api-client";
+import { parseChatResponse } from "@/lib/schemas";
+
+export interface ChatHistoryEntry {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatStreamOptions {
+  sessionId: string;
+  message: string;
+  history?: ChatHistoryEntry[]; // Earlier turns on the current branch, oldest first
+  signal?: AbortSignal;
+  onToken?: (token: string, fullText: string) => void;
+}
+
+export interface ChatStreamResult {
+  text: string;
+  aborted: boolean;
+  metadata?: unknown;
+}
+
+/**
+ * Map transcript messages to chat history, skipping empty placeholders
+ */
+export function toChatHistory(messages: Array<{ role: "user" | "assistant"; content: string }>): ChatHistoryEntry[] {
+  return messages.filter((m) => m.content.trim()).map(({ role, content }) => ({ role, content }));
+}
+
+/**
+ * Send a chat message and stream the reply
+ * Resolves with the full text once the stream ends or is aborted
+ */
+export async function streamChat({
+  sessionId,
+  message,
+  history,
+  signal,
+  onToken,
+}: ChatStreamOptions): Promise<ChatStreamResult> {
+  let fullText = "";
+  let metadata: unknown;
+  const request = { session_id: sessionId, message, history };
+
+  const emit = (token: string) => {
+    if (!token) return;
+    fullText += token;
+    onToken?.(token, fullText);
+  };
+
+  // apiFetch stops listening to the caller's signal once headers arrive, so the body is cancelled from here
+  let cancelOnAbort: (() => void) | null = null;
+
+  try {
+    const response = await api.chat.stream(request, signal).catch((error) => {
+      if (isApiError(error) && error.kind === "http") return null;
+      throw error;
+    });
+
+    // Streaming not available - use the regular chat endpoint
+    if (!response?.body) {
+      const data = await api.chat.send(request, signal);
+      emit(data.response || "");
+      return { text: fullText, aborted: false, metadata: data.metadata };
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType.includes("application/json")) {
+      const data = parseChatResponse(await response.json());
+      emit(data.response || "");
+      return { text: fullText, aborted: false, metadata: data.metadata };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    cancelOnAbort = () => void reader.cancel().catch(() => {});
+    signal?.addEventListener("abort", cancelOnAbort, { once: true });
+    // A cancelled reader just reports done, so the signal says whether the user stopped it
+    const finish = (): ChatStreamResult => ({ text: fullText, aborted: !!signal?.aborted, metadata });
+
+    if (!contentType.includes("text/event-stream")) {
+      // Chunked plain text: every chunk is a token
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        emit(decoder.decode(value, { stream: true }));
+      }
+      return finish();
+    }
+
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || "";
+
+      for (const rawEvent of events) {
+        const event = parseSSEEvent(rawEvent);
+        if (!event) continue;
+        if (event.data === "[DONE]") {
+          await reader.cancel();
+          return finish();
+        }
+        if (event.type === "error") {
+          throw new Error(event.data || "Stream error");
+        }
+        if (event.type === "metadata") {
+          metadata = parseMetadataEvent(event.data);
+          continue;
+        }
+        emit(extractToken(event.data));
+      }
+    }
+
+    // Flush a trailing event without the final blank line
+    const lastEvent = parseSSEEvent(buffer);
+    if (lastEvent?.type === "metadata") {
+      metadata = parseMetadataEvent(lastEvent.data);
+    } else if (lastEvent && lastEvent.data !== "[DONE]" && lastEvent.type !== "error") {
+      emit(extractToken(lastEvent.data));
+    }
+
+    return finish();
+  } catch (error) {
+    if (signal?.aborted) {
+      return { text: fullText, aborted: true, metadata };
+    }
+    throw error;
+  } finally {
+    if (cancelOnAbort) signal?.removeEventListener("abort", cancelOnAbort);
+  }
+}
+
+function parseSSEEvent(rawEvent: string): { type: string; data: string } | null {
+  if (!rawEvent.trim()) return null;
+
+  let type = "message";
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split(/\r?\n/)) {
+    if (line.startsWith(":")) continue; // comment / keep-alive
+    if (line.startsWith("event:")) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { type, data: dataLines.join("\n") };
+}
+
+/**
+ * Metadata events carry the JSON envelope - keep the raw string if it isn't JSON
+ * so validation can report it
+ */
+function parseMetadataEvent(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Tokens arrive either as raw text or as JSON ({ token }, { delta }, { content })
+ */
+function extractToken(data: string): string {
+  try {
+    const parsed = JSON.parse(data);
+    if (typeof parsed === "string") return parsed;
+    if (typeof parsed !== "object" || parsed === null) return data;
+    return parsed.token ?? parsed.delta ?? parsed.content ?? "";
+  } catch {
+    return data;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Backend Connection Status
+ *
+ * Tracks whether the Agno backend is reachable.
+ * - Pings /health and tells a cold start (slow but alive) apart from down
+ * - Queues API requests while the backend warms up
+ * - Retries with backoff until the backend answers again
+ * - Notifies pages when it becomes reachable so they can refetch
+ */
+
+import { api, isApiError, registerConnectionMonitor } from "@/lib/api-client";
+
+export type ConnectionState = "unknown" | "checking" | "online" | "waking" | "offline";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  since: number; // When the current state began
+  lastCheckedAt?: number;
+}
+
+const SLOW_RESPONSE_MS = 3_000; // Past this a health check counts as a cold start
+const RETRY_DELAYS_MS = [5_000, 10_000, 20_000, 30_000];
+
+const SERVER_STATUS: ConnectionStatus = { state: "unknown", since: 0 };
+
+let status: ConnectionStatus = SERVER_STATUS;
+let inFlight: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+let started = false;
+
+const listeners = new Set<() => void>();
+const reachableListeners = new Set<() => void>();
+const waiters = new Set<() => void>();
+
+export function getConnectionStatus(): ConnectionStatus {
+  return status;
+}
+
+export function getServerConnectionStatus(): ConnectionStatus {
+  return SERVER_STATUS;
+}
+
+export function subscribeConnection(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Run a callback each time the backend becomes reachable again
+ */
+export function onBackendReachable(callback: () => void): () => void {
+  reachableListeners.add(callback);
+  return () => reachableListeners.delete(callback);
+}
+
+/**
+ * Start monitoring - safe to call from every component that shows the status
+ */
+export function startConnectionMonitor(): void {
+  if (started || typeof window === "undefined") return;
+  started = true;
+  window.addEventListener("online", () => checkConnection());
+  checkConnection();
+}
+
+/**
+ * Ping the backend now (deduplicated while a check is running)
+ */
+export function checkConnection(): Promise<void> {
+  if (!inFlight) {
+    inFlight = runCheck().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * User-facing explanation for a failed request, based on what the monitor knows
+ */
+export function getConnectionMessage(): string {
+  switch (status.state) {
+    case "waking":
+      return "Larry's server is waking up - your message can be resent in a moment.";
+    case "offline":
+      return "Can't reach Larry's server right now. I'll reconnect automatically.";
+    default:
+      return "Something went wrong talking to the server. Please try again.";
+  }
+}
+
+async function runCheck() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (status.state === "unknown" || status.state === "offline") {
+    setState("checking");
+  }
+
+  const slowTimer = setTimeout(() => setState("waking"), SLOW_RESPONSE_MS);
+  let next: ConnectionState;
+  try {
+    await api.health.check();
+    next = "online";
+  } catch (error) {
+    next = classifyFailure(error);
+  } finally {
+    clearTimeout(slowTimer);
+  }
+
+  setState(next, Date.now());
+  if (next === "online") {
+    retryAttempt = 0;
+  } else {
+    scheduleRetry();
+  }
+}
+
+function classifyFailure(error: unknown): ConnectionState {
+  if (!isApiError(error)) return "offline";
+  if (error.kind === "http") {
+    // The proxy couldn't open a connection to the backend at all - not a cold start
+    if (error.proxyCode === "upstream_unreachable") return "offline";
+    // The gateway answers with 502-504 while the service spins up; anything else means it's alive
+    return [502, 503, 504].includes(error.status ?? 0) ? "waking" : "online";
+  }
+  return "offline";
+}
+
+function scheduleRetry() {
+  const delay = RETRY_DELAYS_MS[Math.min(retryAttempt, RETRY_DELAYS_MS.length - 1)];
+  retryAttempt++;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    checkConnection();
+  }, delay);
+}
+
+function setState(state: ConnectionState, lastCheckedAt = status.lastCheckedAt) {
+  const previous = status.state;
+  if (previous === state && lastCheckedAt === status.lastCheckedAt) return;
+
+  status = { state, since: previous === state ? status.since : Date.now(), lastCheckedAt };
+  listeners.forEach((listener) => listener());
+
+  if (state !== "waking") {
+    waiters.forEach((release) => release());
+    waiters.clear();
+  }
+  if (state === "online" && previous !== "online") {
+    reachableListeners.forEach((callback) => callback());
+  }
+}
+
+/**
+ * Requests wait here while a cold start is in progress
+ */
+function waitUntilReachable(signal?: AbortSignal): Promise<void> {
+  if (status.state !== "waking" || signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const release = () => {
+      waiters.delete(release);
+      signal?.removeEventListener("abort", release);
+      resolve();
+    };
+    waiters.add(release);
+    signal?.addEventListener("abort", release, { once: true });
+  });
+}
+
+function report(reachable: boolean) {
+  if (reachable) {
+    if (status.state !== "online") setState("online", Date.now());
+    return;
+  }
+  if (status.state === "online" || status.state === "unknown") {
+    checkConnection();
+  }
+}
+
+registerConnectionMonitor({ waitUntilReachable, report });
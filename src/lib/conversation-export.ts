@@ -0,0 +1,197 @@
+/**
+ * Conversation Export
+ *
+ * Turns a Larry session into shareable files.
+ * - Markdown transcript with clarity progression and parked ideas
+ * - JSON document for tooling and re-import
+ * - One-page problem brief from the final What/Who/Success
+ */
+
+import { DEFAULT_CLARITY, type ClaritySnapshot, type ProblemClarity, type SessionStats } from "@/lib/larry-metadata";
+import type { TrackedParkedIdea } from "@/lib/parked-ideas";
+
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export interface ExportedMessage {
+  role: "user" | "assistant";
+  content: string; // Visible text, without the metadata block
+  timestamp: Date;
+}
+
+export interface ConversationExport {
+  sessionId: string;
+  title: string;
+  messages: ExportedMessage[];
+  clarity: ProblemClarity;
+  stats: SessionStats;
+  clarityHistory: ClaritySnapshot[];
+  parkedIdeas: TrackedParkedIdea[];
+}
+
+export type ExportFormat = "markdown" | "json" | "brief";
+
+/**
+ * Full transcript as Markdown
+ */
+export function toMarkdown(conversation: ConversationExport, exportedAt = new Date()): string {
+  const { title, messages, clarity, stats, clarityHistory } = conversation;
+  const lines: string[] = [
+    `# ${title}`,
+    "",
+    `_Larry session ${conversation.sessionId} - exported ${formatDate(exportedAt)}_`,
+    "",
+    "## Problem Clarity",
+    "",
+    ...formatClarity(clarity),
+    "",
+    `Questions asked: ${stats.questionsAsked} · Parked ideas: ${stats.parkedIdeas} · Assumptions challenged: ${stats.assumptionsChallenged}`,
+    "",
+  ];
+
+  if (clarityHistory.length > 0) {
+    lines.push("### Clarity over time", "", "| Turn | Clarity | What | Who | Success |", "| --- | --- | --- | --- | --- |");
+    for (const snapshot of clarityHistory) {
+      const { percentage, what, who, success } = snapshot.clarity;
+      lines.push(`| ${snapshot.turn} | ${percentage}% | ${escapeCell(what)} | ${escapeCell(who)} | ${escapeCell(success)} |`);
+    }
+    lines.push("");
+  }
+
+  lines.push(...formatParkedIdeas(conversation.parkedIdeas));
+
+  lines.push("## Transcript", "");
+  for (const message of messages) {
+    const speaker = message.role === "user" ? "You" : "Larry";
+    lines.push(`**${speaker}** (${formatTime(message.timestamp)}):`, "", message.content, "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Transcript and session data as a versioned JSON document
+ */
+export function toJson(conversation: ConversationExport, exportedAt = new Date()): string {
+  return JSON.stringify(
+    {
+      version: CONVERSATION_EXPORT_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      ...conversation,
+      parkedIdeas: conversation.parkedIdeas.filter((idea) => !idea.mergedInto),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * One-page summary for stakeholders - the problem as it stands, not the chat
+ */
+export function toProblemBrief(conversation: ConversationExport, exportedAt = new Date()): string {
+  const { title, clarity, clarityHistory } = conversation;
+  const first = clarityHistory[0]?.clarity.percentage ?? 0;
+  const openQuestions = (["what", "who", "success"] as const).filter(
+    (key) => clarity[key] === DEFAULT_CLARITY[key]
+  );
+
+  const lines: string[] = [
+    `# Problem Brief: ${title}`,
+    "",
+    `_${formatDate(exportedAt)} · Problem clarity ${clarity.percentage}%${
+      clarityHistory.length > 1 ? ` (up from ${first}% over ${clarityHistory.length} turns)` : ""
+    }_`,
+    "",
+    "## The Problem",
+    "",
+    clarity.what,
+    "",
+    "## Who Has It",
+    "",
+    clarity.who,
+    "",
+    "## What Success Looks Like",
+    "",
+    clarity.success,
+    "",
+  ];
+
+  if (openQuestions.length > 0) {
+    lines.push("## Still Open", "");
+    const labels = { what: "What exactly the problem is", who: "Who has this problem", success: "How success is measured" };
+    lines.push(...openQuestions.map((key) => `- ${labels[key]}`), "");
+  }
+
+  const ideas = conversation.parkedIdeas.filter((idea) => !idea.dismissed && !idea.mergedInto);
+  if (ideas.length > 0) {
+    lines.push("## Ideas to Revisit", "");
+    lines.push(...[...ideas].sort((a, b) => Number(!!b.starred) - Number(!!a.starred)).map(formatIdea), "");
+  }
+
+  return lines.join("\n");
+}
+
+export function exportConversation(conversation: ConversationExport, format: ExportFormat) {
+  const slug = slugify(conversation.title) || "larry-session";
+  switch (format) {
+    case "markdown":
+      return { filename: `${slug}.md`, mimeType: "text/markdown", content: toMarkdown(conversation) };
+    case "json":
+      return { filename: `${slug}.json`, mimeType: "application/json", content: toJson(conversation) };
+    case "brief":
+      return { filename: `${slug}-brief.md`, mimeType: "text/markdown", content: toProblemBrief(conversation) };
+  }
+}
+
+/**
+ * Save a generated file through the browser
+ */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatClarity(clarity: ProblemClarity): string[] {
+  return [
+    `**${clarity.percentage}%**`,
+    "",
+    `- **What:** ${clarity.what}`,
+    `- **Who:** ${clarity.who}`,
+    `- **Success:** ${clarity.success}`,
+  ];
+}
+
+function formatParkedIdeas(parkedIdeas: TrackedParkedIdea[]): string[] {
+  const ideas = parkedIdeas.filter((idea) => !idea.dismissed && !idea.mergedInto);
+  if (ideas.length === 0) return [];
+  return ["## Parked Ideas", "", ...ideas.map(formatIdea), ""];
+}
+
+function formatIdea(idea: TrackedParkedIdea): string {
+  const flags = [idea.starred ? "★" : "", idea.opportunityId ? "(banked)" : ""].filter(Boolean).join(" ");
+  const line = `- ${flags ? `${flags} ` : ""}${idea.text}`;
+  return idea.note ? `${line}\n  - _Note:_ ${idea.note.replace(/\n/g, " ")}` : line;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 50);
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString([], { year: "numeric", month: "short", day: "numeric" });
+}
+
+function formatTime(date: Date): string {
+  return new Date(date).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
@@ -0,0 +1,73 @@
+/**
+ * Conversation Branching
+ *
+ * Keeps every version of a chat as a tree of messages.
+ * - Each message points at the message it replies to
+ * - Regenerated replies and edited user messages become siblings
+ * - A branch selection picks which sibling is shown at each fork
+ */
+
+export interface TreeMessage {
+  id: string;
+  parentId?: string | null;
+}
+
+/**
+ * Chosen child per parent message id ("root" for the first message)
+ */
+export type BranchSelection = Record<string, string>;
+
+const ROOT_KEY = "root";
+
+function branchKey(parentId: string | null | undefined): string {
+  return parentId ?? ROOT_KEY;
+}
+
+/**
+ * Messages on the selected branch, from the first message to the leaf
+ * Falls back to the newest sibling where nothing has been selected
+ */
+export function getActivePath<T extends TreeMessage>(messages: T[], selection: BranchSelection): T[] {
+  const path: T[] = [];
+  let parentId: string | null = null;
+
+  while (true) {
+    const children: T[] = getChildren(messages, parentId);
+    if (children.length === 0) break;
+
+    const selectedId: string | undefined = selection[branchKey(parentId)];
+    const next: T = children.find((m) => m.id === selectedId) ?? children[children.length - 1];
+    path.push(next);
+    parentId = next.id;
+  }
+
+  return path;
+}
+
+export function getChildren<T extends TreeMessage>(messages: T[], parentId: string | null | undefined): T[] {
+  return messages.filter((m) => (m.parentId ?? null) === (parentId ?? null));
+}
+
+/**
+ * Alternatives for a message (itself included) and its position among them
+ */
+export function getSiblings<T extends TreeMessage>(messages: T[], message: T): { siblings: T[]; index: number } {
+  const siblings = getChildren(messages, message.parentId);
+  return { siblings, index: siblings.findIndex((m) => m.id === message.id) };
+}
+
+/**
+ * Select a message at its fork
+ */
+export function selectBranch(selection: BranchSelection, message: TreeMessage): BranchSelection {
+  return { ...selection, [branchKey(message.parentId)]: message.id };
+}
+
+/**
+ * Link transcripts saved before branching existed into a single chain
+ */
+export function linkLegacyMessages<T extends TreeMessage>(messages: T[]): T[] {
+  return messages.map((m, i) =>
+    m.parentId !== undefined ? m : { ...m, parentId: i === 0 ? null : messages[i - 1].id }
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * Grid Views
+ *
+ * Remembers how the opportunity grid is laid out and lets people keep named views.
+ * - Column order, visibility and width, sort, grouping and page size
+ * - Named views pair a layout with the list filters (stored as a query string)
+ * - Built-in presets such as "High priority exploring" and "Stale validated"
+ * - Kept in localStorage, so layouts and views belong to whoever uses this browser
+ * - Subscribable for useSyncExternalStore
+ */
+
+import { DEFAULT_FILTERS, toFilterParams, type OpportunityFilters } from "@/lib/opportunity-filters";
+
+export const GRID_COLUMN_KEYS = [
+  "anomaly",
+  "name",
+  "description",
+  "status",
+  "priority",
+  "csio_score",
+  "tags",
+  "domain",
+  "actions",
+] as const;
+
+export type GridColumnKey = (typeof GRID_COLUMN_KEYS)[number];
+
+export const GROUPABLE_COLUMNS: Array<{ field: GridColumnKey; label: string }> = [
+  { field: "status", label: "Status" },
+  { field: "priority", label: "Priority" },
+  { field: "domain", label: "Domain" },
+];
+
+export const PAGE_SIZES = [10, 25, 50, 100];
+
+export interface ColumnLayout {
+  key: GridColumnKey;
+  visible: boolean;
+  width?: number;
+}
+
+export interface SortLayout {
+  field: string;
+  direction: "Ascending" | "Descending";
+}
+
+export interface GridLayout {
+  columns: ColumnLayout[];
+  sort: SortLayout[];
+  group: string[];
+  pageSize: number;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  layout: GridLayout;
+  filters: string; // Query string from toFilterParams
+  builtIn?: boolean;
+}
+
+export interface GridViewsState {
+  views: SavedView[];
+  activeViewId: string;
+  layout: GridLayout; // What the grid shows now - may differ from the active view
+  revision: number; // Bumped when a view is applied, so the grid remounts with it
+}
+
+export const DEFAULT_GRID_LAYOUT: GridLayout = {
+  columns: [
+    { key: "anomaly", visible: true, width: 80 },
+    { key: "name", visible: true, width: 200 },
+    { key: "description", visible: true, width: 220 },
+    { key: "status", visible: true, width: 100 },
+    { key: "priority", visible: true, width: 90 },
+    { key: "csio_score", visible: true, width: 120 },
+    { key: "tags", visible: true, width: 180 },
+    { key: "domain", visible: true, width: 150 },
+    { key: "actions", visible: true },
+  ],
+  sort: [],
+  group: [],
+  pageSize: 10,
+};
+
+const DEFAULT_VIEW_ID = "all";
+
+const BUILT_IN_VIEWS: SavedView[] = [
+  { id: DEFAULT_VIEW_ID, name: "All opportunities", layout: DEFAULT_GRID_LAYOUT, filters: "", builtIn: true },
+  {
+    id: "high-priority-exploring",
+    name: "High priority exploring",
+    layout: { ...DEFAULT_GRID_LAYOUT, sort: [{ field: "csio_score", direction: "Descending" }] },
+    filters: viewFilters({ statuses: ["exploring"], priorities: ["high"] }),
+    builtIn: true,
+  },
+  {
+    id: "stale-validated",
+    name: "Stale validated",
+    layout: { ...DEFAULT_GRID_LAYOUT, group: ["priority"] },
+    filters: viewFilters({ statuses: ["validated"], staleDays: 30 }),
+    builtIn: true,
+  },
+];
+
+const STORAGE_KEY = "mindrian:grid-views:v1";
+
+const SERVER_STATE: GridViewsState = {
+  views: BUILT_IN_VIEWS,
+  activeViewId: DEFAULT_VIEW_ID,
+  layout: DEFAULT_GRID_LAYOUT,
+  revision: 0,
+};
+
+let state: GridViewsState | null = null;
+const listeners = new Set<() => void>();
+
+export function getGridViews(): GridViewsState {
+  if (!state) state = loadState();
+  return state;
+}
+
+export function getServerGridViews(): GridViewsState {
+  return SERVER_STATE;
+}
+
+export function subscribeGridViews(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Remember the grid's current layout - called after every sort, group, reorder, resize or column change
+ */
+export function saveGridLayout(layout: GridLayout): void {
+  const current = getGridViews();
+  const next = normalizeLayout(layout);
+  if (JSON.stringify(next) === JSON.stringify(current.layout)) return;
+  update({ ...current, layout: next });
+}
+
+/**
+ * Switch to a view - returns it so the caller can apply its filters
+ */
+export function applyGridView(id: string): SavedView | undefined {
+  const current = getGridViews();
+  const view = current.views.find((v) => v.id === id);
+  if (!view) return undefined;
+  update({ ...current, activeViewId: id, layout: view.layout, revision: current.revision + 1 });
+  return view;
+}
+
+export function saveGridView(name: string, filters: OpportunityFilters): SavedView {
+  const current = getGridViews();
+  const view: SavedView = {
+    id: `view-${Date.now()}`,
+    name: name.trim(),
+    layout: current.layout,
+    filters: toFilterParams(filters).toString(),
+  };
+  update({ ...current, views: [...current.views, view], activeViewId: view.id });
+  return view;
+}
+
+/**
+ * Overwrite a saved view with the current layout and filters - built-in views can't be changed
+ */
+export function updateGridView(id: string, filters: OpportunityFilters): void {
+  const current = getGridViews();
+  update({
+    ...current,
+    views: current.views.map((view) =>
+      view.id === id && !view.builtIn
+        ? { ...view, layout: current.layout, filters: toFilterParams(filters).toString() }
+        : view
+    ),
+  });
+}
+
+export function deleteGridView(id: string): void {
+  const current = getGridViews();
+  if (current.views.find((view) => view.id === id)?.builtIn) return;
+  update({
+    ...current,
+    views: current.views.filter((view) => view.id !== id),
+    activeViewId: current.activeViewId === id ? DEFAULT_VIEW_ID : current.activeViewId,
+  });
+}
+
+export function resetGridLayout(): void {
+  const current = getGridViews();
+  update({ ...current, layout: DEFAULT_GRID_LAYOUT, revision: current.revision + 1 });
+}
+
+/**
+ * The grid or the filters have drifted from the active view
+ */
+export function isGridViewModified(views: GridViewsState, filters: OpportunityFilters): boolean {
+  const view = views.views.find((v) => v.id === views.activeViewId);
+  if (!view) return false;
+  return (
+    JSON.stringify(views.layout) !== JSON.stringify(view.layout) || toFilterParams(filters).toString() !== view.filters
+  );
+}
+
+export function isGridColumnKey(value: unknown): value is GridColumnKey {
+  return (GRID_COLUMN_KEYS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Clean up a stored layout - unknown columns are dropped and new ones added at their default position
+ */
+export function normalizeLayout(value: unknown): GridLayout {
+  const raw = (typeof value === "object" && value !== null ? value : {}) as Partial<Record<keyof GridLayout, unknown>>;
+
+  const columns: ColumnLayout[] = [];
+  (Array.isArray(raw.columns) ? raw.columns : []).forEach((column) => {
+    if (!isGridColumnKey(column?.key) || columns.some((c) => c.key === column.key)) return;
+    const width = parseFloat(String(column.width));
+    columns.push({
+      key: column.key,
+      visible: column.visible !== false,
+      width: Number.isFinite(width) && width > 0 ? Math.round(width) : undefined,
+    });
+  });
+  DEFAULT_GRID_LAYOUT.columns.forEach((column, index) => {
+    if (!columns.some((c) => c.key === column.key)) columns.splice(Math.min(index, columns.length), 0, column);
+  });
+
+  const sort = (Array.isArray(raw.sort) ? raw.sort : []).flatMap((item): SortLayout[] =>
+    isGridColumnKey(item?.field)
+      ? [{ field: item.field, direction: item.direction === "Descending" ? "Descending" : "Ascending" }]
+      : []
+  );
+  const group = (Array.isArray(raw.group) ? raw.group : []).filter((field) =>
+    GROUPABLE_COLUMNS.some((column) => column.field === field)
+  );
+  const pageSize = PAGE_SIZES.includes(Number(raw.pageSize)) ? Number(raw.pageSize) : DEFAULT_GRID_LAYOUT.pageSize;
+
+  return { columns, sort, group, pageSize };
+}
+
+function viewFilters(filters: Partial<OpportunityFilters>): string {
+  return toFilterParams({ ...DEFAULT_FILTERS, ...filters }).toString();
+}
+
+function update(next: GridViewsState): void {
+  state = next;
+  try {
+    const { views, activeViewId, layout } = next;
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ views: views.filter((view) => !view.builtIn), activeViewId, layout })
+    );
+  } catch {
+    // Views still work for this page without storage
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function loadState(): GridViewsState {
+  if (typeof window === "undefined") return SERVER_STATE;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return SERVER_STATE;
+    const parsed = JSON.parse(stored);
+    const custom: SavedView[] = (Array.isArray(parsed.views) ? parsed.views : [])
+      .filter((view: Partial<SavedView>) => typeof view?.id === "string" && typeof view.name === "string")
+      .map((view: SavedView) => ({
+        id: view.id,
+        name: view.name,
+        layout: normalizeLayout(view.layout),
+        filters: typeof view.filters === "string" ? view.filters : "",
+      }));
+    const views = [...BUILT_IN_VIEWS, ...custom];
+    return {
+      views,
+      activeViewId: views.some((view) => view.id === parsed.activeViewId) ? parsed.activeViewId : DEFAULT_VIEW_ID,
+      layout: normalizeLayout(parsed.layout),
+      revision: 0,
+    };
+  } catch {
+    return SERVER_STATE;
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * Larry Metadata Protocol
+ *
+ * Extracts session data (problem clarity, stats, parked ideas) from Larry's replies.
+ * - Versioned JSON envelope in a fenced ```larry-metadata block
+ * - Or the same envelope in a separate `metadata` response field
+ * - Schema validation with readable errors
+ * - Legacy regex parser for the markdown block after ---
+ */
+
+import { getParkedIdeaId } from "@/lib/parked-ideas";
+
+export const LARRY_METADATA_VERSION = 1;
+
+export interface ProblemClarity {
+  percentage: number;
+  what: string;
+  who: string;
+  success: string;
+}
+
+export interface SessionStats {
+  questionsAsked: number;
+  parkedIdeas: number;
+  assumptionsChallenged: number;
+}
+
+export interface ParkedIdea {
+  id: string;
+  text: string;
+  timestamp: Date;
+}
+
+/**
+ * Clarity as of one Larry turn, linked to the message that produced it
+ */
+export interface ClaritySnapshot {
+  messageId: string;
+  turn: number;
+  clarity: ProblemClarity;
+  timestamp: Date;
+}
+
+export type ClarityDimensionKey = "what" | "who" | "success";
+
+/**
+ * Wire format of the structured metadata envelope (version 1)
+ */
+export interface LarryMetadataEnvelope {
+  version: typeof LARRY_METADATA_VERSION;
+  clarity: {
+    percentage: number;
+    what?: string | null;
+    who?: string | null;
+    success?: string | null;
+  };
+  stats?: {
+    questions_asked?: number;
+    parked_ideas?: number;
+    assumptions_challenged?: number;
+  };
+  parked_ideas?: Array<string | { text: string }>;
+}
+
+export type MetadataSource = "structured" | "legacy" | "none";
+
+export interface LarryResponseParse {
+  message: string;
+  clarity: ProblemClarity;
+  stats: SessionStats;
+  parkedIdeas: ParkedIdea[];
+  metadataSource: MetadataSource;
+  metadataWarning?: string;
+}
+
+export type MetadataValidation =
+  | { ok: true; metadata: LarryMetadataEnvelope }
+  | { ok: false; errors: string[] };
+
+const METADATA_FENCE = /```larry-metadata[ \t]*\r?\n([\s\S]*?)```/g;
+const CLARITY_MARKER = /Problem Clarity:\s*\d+%/g;
+const OTHER_MARKERS = /Questions asked:\s*\d+|\*\*Parked Ideas:\*\*/g;
+
+export const DEFAULT_CLARITY: ProblemClarity = {
+  percentage: 0,
+  what: "Not yet clear",
+  who: "Not yet identified",
+  success: "Not yet defined",
+};
+
+export const DEFAULT_STATS: SessionStats = {
+  questionsAsked: 0,
+  parkedIdeas: 0,
+  assumptionsChallenged: 0,
+};
+
+/**
+ * Parse a Larry response into message + session data
+ * A metadata response field takes precedence over anything in the text
+ */
+export function parseLarryResponse(response: string, metadataField?: unknown): LarryResponseParse {
+  const fenced = findFencedMetadata(response);
+  const message = fenced ? stripFencedMetadata(response, fenced) : response;
+
+  if (metadataField !== undefined && metadataField !== null) {
+    return parseStructured(message.trim(), metadataField);
+  }
+
+  if (fenced) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fenced.json);
+    } catch {
+      return {
+        ...parseLegacy(message),
+        metadataWarning: "Larry's metadata block isn't valid JSON",
+      };
+    }
+    return parseStructured(message.trim(), raw);
+  }
+
+  return parseLegacy(response);
+}
+
+/**
+ * Visible part of a (possibly still streaming) Larry response
+ * Hides the metadata block as soon as it starts arriving
+ */
+export function getLarryMessageText(response: string): string {
+  let end = response.length;
+
+  const fenceStart = response.indexOf("```larry-metadata");
+  if (fenceStart !== -1) end = fenceStart;
+
+  const separator = findLegacySeparator(response);
+  if (separator !== -1) end = Math.min(end, separator);
+
+  // A separator that just arrived, before its markers have streamed in
+  const trailing = response.slice(0, end).match(/\n---[ \t]*(\r?\n[^\n]{0,40})?$/);
+  if (trailing?.index !== undefined) end = trailing.index;
+
+  return response.slice(0, end).replace(/\n---[ \t]*\s*$/, "").trim();
+}
+
+/**
+ * What/Who/Success dimensions that differ between two clarity snapshots
+ */
+export function getChangedDimensions(previous: ProblemClarity | undefined, next: ProblemClarity): ClarityDimensionKey[] {
+  const keys: ClarityDimensionKey[] = ["what", "who", "success"];
+  if (!previous) {
+    return keys.filter((key) => next[key] !== DEFAULT_CLARITY[key]);
+  }
+  return keys.filter((key) => previous[key] !== next[key]);
+}
+
+/**
+ * Validate an unknown value against the metadata envelope schema
+ */
+export function validateLarryMetadata(value: unknown): MetadataValidation {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["metadata must be an object"] };
+  }
+
+  if (value.version !== LARRY_METADATA_VERSION) {
+    errors.push(`unsupported version ${JSON.stringify(value.version)} (expected ${LARRY_METADATA_VERSION})`);
+  }
+
+  if (!isRecord(value.clarity)) {
+    errors.push("clarity must be an object");
+  } else {
+    const { percentage } = value.clarity;
+    if (typeof percentage !== "number" || !Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+      errors.push("clarity.percentage must be a number between 0 and 100");
+    }
+    for (const key of ["what", "who", "success"]) {
+      const field = value.clarity[key];
+      if (field !== undefined && field !== null && typeof field !== "string") {
+        errors.push(`clarity.${key} must be a string or null`);
+      }
+    }
+  }
+
+  if (value.stats !== undefined) {
+    if (!isRecord(value.stats)) {
+      errors.push("stats must be an object");
+    } else {
+      for (const key of ["questions_asked", "parked_ideas", "assumptions_challenged"]) {
+        const field = value.stats[key];
+        if (field !== undefined && (!Number.isInteger(field) || (field as number) < 0)) {
+          errors.push(`stats.${key} must be a non-negative integer`);
+        }
+      }
+    }
+  }
+
+  if (value.parked_ideas !== undefined) {
+    if (!Array.isArray(value.parked_ideas)) {
+      errors.push("parked_ideas must be an array");
+    } else {
+      value.parked_ideas.forEach((idea, i) => {
+        const isValid = typeof idea === "string" || (isRecord(idea) && typeof idea.text === "string");
+        if (!isValid) errors.push(`parked_ideas[${i}] must be a string or { text }`);
+      });
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, metadata: value as unknown as LarryMetadataEnvelope };
+}
+
+function parseStructured(message: string, raw: unknown): LarryResponseParse {
+  const validation = validateLarryMetadata(raw);
+
+  if (!validation.ok) {
+    return {
+      ...parseLegacy(message),
+      metadataWarning: `Larry's metadata didn't match the expected format: ${validation.errors.join("; ")}`,
+    };
+  }
+
+  const { clarity, stats, parked_ideas = [] } = validation.metadata;
+
+  return {
+    message,
+    clarity: {
+      percentage: Math.round(clarity.percentage),
+      what: clarity.what || DEFAULT_CLARITY.what,
+      who: clarity.who || DEFAULT_CLARITY.who,
+      success: clarity.success || DEFAULT_CLARITY.success,
+    },
+    stats: {
+      questionsAsked: stats?.questions_asked ?? 0,
+      parkedIdeas: stats?.parked_ideas ?? parked_ideas.length,
+      assumptionsChallenged: stats?.assumptions_challenged ?? 0,
+    },
+    parkedIdeas: parked_ideas.map((idea) => toParkedIdea(typeof idea === "string" ? idea : idea.text)),
+    metadataSource: "structured",
+  };
+}
+
+/**
+ * Legacy parser for the markdown metadata block after ---
+ */
+function parseLegacy(response: string): LarryResponseParse {
+  const separator = findLegacySeparator(response);
+  const message = (separator === -1 ? response : response.slice(0, separator)).trim();
+
+  const clarity: ProblemClarity = { ...DEFAULT_CLARITY };
+  const stats: SessionStats = { ...DEFAULT_STATS };
+  let parkedIdeas: ParkedIdea[] = [];
+
+  if (separator === -1) {
+    return { message, clarity, stats, parkedIdeas, metadataSource: "none" };
+  }
+
+  const metadataSection = response.slice(separator).replace(/^\s*---/, "");
+
+  // Parse Problem Clarity percentage
+  const clarityMatch = metadataSection.match(/Problem Clarity:\s*(\d+)%/);
+  if (clarityMatch) {
+    clarity.percentage = parseInt(clarityMatch[1]);
+  }
+
+  // Parse What/Who/Success
+  const whatMatch = metadataSection.match(/What is the problem:\s*\[([^\]]+)\]/);
+  if (whatMatch) clarity.what = whatMatch[1];
+
+  const whoMatch = metadataSection.match(/Who has this problem:\s*\[([^\]]+)\]/);
+  if (whoMatch) clarity.who = whoMatch[1];
+
+  const successMatch = metadataSection.match(/What is success:\s*\[([^\]]+)\]/);
+  if (successMatch) clarity.success = successMatch[1];
+
+  // Parse Session Stats
+  const questionsMatch = metadataSection.match(/Questions asked:\s*(\d+)/);
+  if (questionsMatch) stats.questionsAsked = parseInt(questionsMatch[1]);
+
+  const parkedMatch = metadataSection.match(/Parked ideas:\s*(\d+)/);
+  if (parkedMatch) stats.parkedIdeas = parseInt(parkedMatch[1]);
+
+  const challengedMatch = metadataSection.match(/Assumptions challenged:\s*(\d+)/);
+  if (challengedMatch) stats.assumptionsChallenged = parseInt(challengedMatch[1]);
+
+  // Parse Parked Ideas list
+  const parkedSection = metadataSection.match(/\*\*Parked Ideas:\*\*([^*]+)/);
+  if (parkedSection && !parkedSection[1].includes("None")) {
+    const ideas = parkedSection[1].split("\n").filter(line => line.trim().startsWith("-"));
+    parkedIdeas = ideas.map((idea) => toParkedIdea(idea.replace(/^-\s*/, "")));
+  }
+
+  return {
+    message,
+    clarity,
+    stats,
+    parkedIdeas,
+    metadataSource: "legacy",
+    metadataWarning: clarityMatch
+      ? undefined
+      : "Couldn't read Problem Clarity from Larry's reply - the metadata wording may have changed",
+  };
+}
+
+/**
+ * Index of the --- that starts the legacy metadata block, or -1
+ * Uses the last --- before the metadata markers, so a literal --- inside
+ * the message itself doesn't cut it short. A --- with no markers after it
+ * is just a horizontal rule.
+ */
+function findLegacySeparator(response: string): number {
+  const separators = [...response.matchAll(/(^|\n)[ \t]*---[ \t]*(?=\r?\n|$)/g)].map(
+    (m) => m.index + m[1].length
+  );
+  if (separators.length === 0) return -1;
+
+  for (const marker of [CLARITY_MARKER, OTHER_MARKERS]) {
+    const matches = [...response.matchAll(marker)];
+    if (matches.length === 0) continue;
+    const markerIndex = matches[matches.length - 1].index;
+    const before = separators.filter((i) => i < markerIndex);
+    if (before.length > 0) return before[before.length - 1];
+  }
+
+  return -1;
+}
+
+function toParkedIdea(text: string): ParkedIdea {
+  const trimmed = text.trim();
+  return { id: getParkedIdeaId(trimmed), text: trimmed, timestamp: new Date() };
+}
+
+function findFencedMetadata(response: string): { json: string; start: number; end: number } | null {
+  const matches = [...response.matchAll(METADATA_FENCE)];
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+  return { json: last[1], start: last.index, end: last.index + last[0].length };
+}
+
+function stripFencedMetadata(response: string, fenced: { start: number; end: number }): string {
+  const before = response.slice(0, fenced.start).replace(/\n[ \t]*---[ \t]*\s*$/, "");
+  return before + response.slice(fenced.end);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
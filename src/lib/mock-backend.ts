@@ -0,0 +1,551 @@
+/**
+ * Mock Backend
+ *
+ * In-browser stand-in for the Agno backend used by offline mode.
+ * - Serves the whole /api/v1 surface through a fetch-compatible function
+ * - Opportunities and sessions persist in localStorage
+ * - Scripted Larry that asks clarifying questions and emits the metadata block
+ * - Streams chat replies as server-sent events, like the real backend
+ * - Reuses the local AI fallbacks for autocomplete, smart paste, diagrams and insights
+ */
+
+import {
+  getLocalSuggestion,
+  extractLocalOpportunity,
+  generateLocalDiagram,
+  generateLocalInsights,
+} from "@/lib/ai-service";
+import { LARRY_METADATA_VERSION, type LarryMetadataEnvelope } from "@/lib/larry-metadata";
+import { parseOpportunity, type Opportunity } from "@/lib/schemas";
+
+const STORAGE_KEY = "mindrian:mock-backend:v1";
+const RESPONSE_DELAY_MS = 150; // Just enough latency for loading states to show
+const TOKEN_DELAY_MS = 20;
+
+interface MockMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface MockSession {
+  id: string;
+  agent_type: string;
+  created_at: string;
+  updated_at?: string; // Last transcript mirrored from the browser
+  messages: MockMessage[];
+}
+
+interface MockDatabase {
+  opportunities: Opportunity[];
+  sessions: Record<string, MockSession>;
+}
+
+type RouteHandler = (request: MockRequest) => Response | Promise<Response>;
+
+interface MockRequest {
+  method: string;
+  params: string[];
+  body: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+const SEED_OPPORTUNITIES: Opportunity[] = [
+  {
+    id: "demo-1",
+    name: "AI-Powered Recipe Generator",
+    description: "App that suggests recipes based on ingredients you have",
+    problem_statement: "Home cooks struggle to use ingredients before they expire",
+    target_audience: "Busy professionals who want to reduce food waste",
+    domains: ["AI", "Food Tech"],
+    csio_score: 0.85,
+    priority: "high",
+    status: "exploring",
+    tags: ["AI", "Food", "Sustainability"],
+    created_at: "2024-12-15T10:00:00Z",
+    updated_at: "2024-12-17T14:30:00Z",
+    deep_dive_count: 2,
+  },
+  {
+    id: "demo-2",
+    name: "Mental Health Check-in Bot",
+    description: "AI companion that monitors wellbeing patterns",
+    problem_statement: "People don't recognize early signs of burnout",
+    target_audience: "Remote workers in high-stress industries",
+    domains: ["Health Tech", "AI"],
+    csio_score: 0.92,
+    priority: "high",
+    status: "validated",
+    tags: ["Health", "AI", "HR Tech"],
+    created_at: "2024-12-10T09:00:00Z",
+    updated_at: "2024-12-18T11:00:00Z",
+    deep_dive_count: 5,
+  },
+  {
+    id: "demo-3",
+    name: "Local Business Discovery Platform",
+    description: "Connecting local shops with community consumers",
+    problem_statement: "Small businesses struggle to compete with big chains online",
+    target_audience: "Local shop owners and community-minded consumers",
+    domains: ["E-commerce", "Local"],
+    csio_score: 0.67,
+    priority: "medium",
+    status: "parked",
+    tags: ["Local", "E-commerce", "Community"],
+    created_at: "2024-12-05T15:00:00Z",
+    updated_at: "2024-12-12T16:45:00Z",
+    deep_dive_count: 1,
+  },
+  {
+    id: "demo-4",
+    name: "Smart Home Energy Optimizer",
+    description: "Automated energy management for connected homes",
+    problem_statement: "Homeowners waste energy without realizing it",
+    target_audience: "Environmentally conscious homeowners with smart devices",
+    domains: ["IoT", "CleanTech"],
+    csio_score: 0.78,
+    priority: "medium",
+    status: "exploring",
+    tags: ["IoT", "Sustainability", "Smart Home"],
+    created_at: "2024-12-08T11:00:00Z",
+    updated_at: "2024-12-16T09:30:00Z",
+    deep_dive_count: 0,
+  },
+  {
+    id: "demo-5",
+    name: "Freelancer Tax Assistant",
+    description: "AI-powered tax optimization for self-employed",
+    problem_statement: "Freelancers miss deductions and overpay taxes",
+    target_audience: "Independent contractors and gig workers",
+    domains: ["FinTech", "AI"],
+    csio_score: 0.88,
+    priority: "high",
+    status: "validated",
+    tags: ["FinTech", "AI", "Productivity"],
+    created_at: "2024-11-28T14:00:00Z",
+    updated_at: "2024-12-18T10:00:00Z",
+    deep_dive_count: 3,
+  },
+];
+
+// Kept in memory when localStorage isn't available (server render, private mode)
+let memoryDatabase: MockDatabase | null = null;
+
+/**
+ * fetch() replacement - takes an API path instead of a full URL
+ */
+export async function mockFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+  const signal = init.signal ?? undefined;
+  await delay(RESPONSE_DELAY_MS, signal);
+
+  const pathname = path.split("?")[0];
+  for (const route of ROUTES) {
+    const match = route.pattern.exec(pathname);
+    if (!match || route.method !== method) continue;
+
+    let body: Record<string, unknown> = {};
+    if (typeof init.body === "string" && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return json({ detail: "Request body must be JSON" }, 400);
+      }
+    }
+    return route.handler({ method, params: match.slice(1).map(decodeURIComponent), body, signal });
+  }
+
+  return json({ detail: `No offline route for ${method} ${pathname}` }, 404);
+}
+
+/**
+ * Everything in the offline store - the pages fall back to this when the server is unreachable
+ */
+export function listOfflineOpportunities(): Opportunity[] {
+  return readDatabase().opportunities;
+}
+
+export function getOfflineOpportunity(id: string): Opportunity | undefined {
+  return readDatabase().opportunities.find((opportunity) => opportunity.id === id);
+}
+
+/**
+ * Wipe offline data and start again from the seed opportunities
+ */
+export function resetMockBackend(): void {
+  writeDatabase(createSeedDatabase());
+}
+
+// Routes
+
+const ROUTES: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [
+  { method: "GET", pattern: /^(?:\/api)?\/health$/, handler: () => json({ status: "ok", mode: "offline" }) },
+  { method: "POST", pattern: /^\/api\/v1\/sessions$/, handler: createSession },
+  { method: "PUT", pattern: /^\/api\/v1\/sessions\/([^/]+)$/, handler: saveSession },
+  { method: "POST", pattern: /^\/api\/v1\/chat$/, handler: chat },
+  { method: "POST", pattern: /^\/api\/v1\/chat\/stream$/, handler: chatStream },
+  { method: "GET", pattern: /^\/api\/v1\/opportunities$/, handler: listOpportunities },
+  { method: "POST", pattern: /^\/api\/v1\/opportunities$/, handler: createOpportunity },
+  { method: "GET", pattern: /^\/api\/v1\/opportunities\/([^/]+)$/, handler: getOpportunity },
+  { method: "PATCH", pattern: /^\/api\/v1\/opportunities\/([^/]+)$/, handler: updateOpportunity },
+  { method: "PUT", pattern: /^\/api\/v1\/opportunities\/([^/]+)$/, handler: updateOpportunity },
+  { method: "DELETE", pattern: /^\/api\/v1\/opportunities\/([^/]+)$/, handler: deleteOpportunity },
+  { method: "POST", pattern: /^\/api\/v1\/opportunities\/([^/]+)\/deep-dive$/, handler: deepDive },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/ai\/autocomplete$/,
+    handler: ({ body }) => json({ suggestion: getLocalSuggestion(String(body.input ?? "")) }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/ai\/extract-opportunity$/,
+    handler: ({ body }) => json(extractLocalOpportunity(String(body.text ?? ""))),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/ai\/text-to-diagram$/,
+    handler: ({ body }) =>
+      json(generateLocalDiagram(String(body.text ?? ""), body.type === "mindmap" ? "mindmap" : "flowchart")),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/ai\/chart-insights$/,
+    handler: ({ body }) =>
+      json({ insights: generateLocalInsights(Array.isArray(body.opportunities) ? body.opportunities : []) }),
+  },
+];
+
+function createSession({ body }: MockRequest): Response {
+  const database = readDatabase();
+  const id = typeof body.session_id === "string" && body.session_id ? body.session_id : createId("offline-session");
+  database.sessions[id] ??= {
+    id,
+    agent_type: typeof body.agent_type === "string" ? body.agent_type : "larry",
+    created_at: new Date().toISOString(),
+    messages: [],
+  };
+  writeDatabase(database);
+  return json({ session_id: id });
+}
+
+function saveSession({ params, body }: MockRequest): Response {
+  if (!Array.isArray(body.messages)) return json({ detail: "messages must be an array" }, 422);
+  const database = readDatabase();
+  const id = params[0];
+  const existing = database.sessions[id];
+  database.sessions[id] = {
+    id,
+    agent_type: existing?.agent_type ?? "larry",
+    created_at: existing?.created_at ?? new Date().toISOString(),
+    updated_at: typeof body.updated_at === "string" ? body.updated_at : new Date().toISOString(),
+    messages: body.messages.filter(isMockMessage).map(({ role, content }) => ({ role, content })),
+  };
+  writeDatabase(database);
+  return json({ session_id: id });
+}
+
+function chat({ body }: MockRequest): Response {
+  const reply = recordChatTurn(body);
+  if (!reply) return json({ detail: "message is required" }, 422);
+  return json({ response: reply });
+}
+
+function chatStream({ body, signal }: MockRequest): Response {
+  const reply = recordChatTurn(body);
+  if (!reply) return json({ detail: "message is required" }, 422);
+
+  // Stream the prose word by word; the metadata block goes out in one piece
+  const fenceStart = reply.indexOf("```larry-metadata");
+  const prose = fenceStart === -1 ? reply : reply.slice(0, fenceStart);
+  const chunks = prose.split(/(?<=\s)/);
+  if (fenceStart !== -1) chunks.push(reply.slice(fenceStart));
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (const chunk of chunks) {
+          await delay(TOKEN_DELAY_MS, signal);
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ token: chunk })}\n\n`));
+        }
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+function listOpportunities(): Response {
+  return json({ opportunities: readDatabase().opportunities });
+}
+
+function getOpportunity({ params }: MockRequest): Response {
+  const opportunity = getOfflineOpportunity(params[0]);
+  return opportunity ? json(opportunity) : notFound(params[0]);
+}
+
+function createOpportunity({ body }: MockRequest): Response {
+  const now = new Date().toISOString();
+  let opportunity: Opportunity;
+  try {
+    opportunity = parseOpportunity({ ...body, id: createId("offline"), created_at: now, updated_at: now });
+  } catch (error) {
+    return json({ detail: error instanceof Error ? error.message : "Invalid opportunity" }, 422);
+  }
+
+  const database = readDatabase();
+  database.opportunities.unshift(opportunity);
+  writeDatabase(database);
+  return json(opportunity, 201);
+}
+
+function updateOpportunity({ method, params, body }: MockRequest): Response {
+  const database = readDatabase();
+  const index = database.opportunities.findIndex((opportunity) => opportunity.id === params[0]);
+  if (index === -1) return notFound(params[0]);
+
+  const existing = database.opportunities[index];
+  const base = method === "PUT" ? { created_at: existing.created_at } : existing;
+  let updated: Opportunity;
+  try {
+    updated = parseOpportunity({ ...base, ...body, id: existing.id, updated_at: new Date().toISOString() });
+  } catch (error) {
+    return json({ detail: error instanceof Error ? error.message : "Invalid opportunity" }, 422);
+  }
+
+  database.opportunities[index] = updated;
+  writeDatabase(database);
+  return json(updated);
+}
+
+function deleteOpportunity({ params }: MockRequest): Response {
+  const database = readDatabase();
+  const remaining = database.opportunities.filter((opportunity) => opportunity.id !== params[0]);
+  if (remaining.length === database.opportunities.length) return notFound(params[0]);
+
+  database.opportunities = remaining;
+  writeDatabase(database);
+  return new Response(null, { status: 204 });
+}
+
+function deepDive({ params, body }: MockRequest): Response {
+  const database = readDatabase();
+  const opportunity = database.opportunities.find((item) => item.id === params[0]);
+  if (!opportunity) return notFound(params[0]);
+
+  opportunity.deep_dive_count += 1;
+  opportunity.updated_at = new Date().toISOString();
+  writeDatabase(database);
+
+  const focus = typeof body.focus === "string" ? body.focus : "validate_assumptions";
+  return json(scriptDeepDive(opportunity, focus));
+}
+
+// Scripted Larry
+
+/**
+ * Append the user's message to the session and work out Larry's reply
+ * The conversation sent by the client wins over the stored one, so edits and branches stay consistent
+ */
+function recordChatTurn(body: Record<string, unknown>): string | null {
+  const message = typeof body.message === "string" ? body.message.trim() : "";
+  if (!message) return null;
+
+  const database = readDatabase();
+  const sessionId = typeof body.session_id === "string" ? body.session_id : "";
+  const session = sessionId
+    ? (database.sessions[sessionId] ??= {
+        id: sessionId,
+        agent_type: "larry",
+        created_at: new Date().toISOString(),
+        messages: [],
+      })
+    : undefined;
+
+  const history = Array.isArray(body.history) ? body.history.filter(isMockMessage) : session?.messages ?? [];
+  const userMessages = [...history.filter((entry) => entry.role === "user").map((entry) => entry.content), message];
+  const reply = scriptLarryReply(userMessages);
+
+  if (session) {
+    session.messages = [...history, { role: "user", content: message }, { role: "assistant", content: reply }];
+    writeDatabase(database);
+  }
+  return reply;
+}
+
+const WHO_PATTERN = /\b(customers?|users?|people|teams?|owners?|parents|students|workers|managers|families|for)\b/i;
+const SUCCESS_PATTERN = /\b(success|succeed|measure|metric|goal|outcome|achieve|win|kpi|target)\b/i;
+const IDEA_PATTERN = /\b(what if|maybe we|maybe i|another idea|we could also|i could also)\b/i;
+
+/**
+ * Larry's reply for the conversation so far, ending in a larry-metadata block
+ */
+function scriptLarryReply(userMessages: string[]): string {
+  const turn = userMessages.length;
+  const latest = userMessages[turn - 1];
+
+  const opening = splitSentences(userMessages[0]).filter((sentence) => !IDEA_PATTERN.test(sentence));
+  const what = summarize(opening[0] ?? userMessages[0]);
+  const who = findSentence(userMessages.slice(1), WHO_PATTERN) ?? findSentence([userMessages[0]], /\bfor\b/i);
+  const success = findSentence(userMessages.slice(1), SUCCESS_PATTERN);
+  const parkedIdeas = userMessages.flatMap(splitSentences).filter((sentence) => IDEA_PATTERN.test(sentence));
+  const newIdea = splitSentences(latest).find((sentence) => IDEA_PATTERN.test(sentence));
+
+  const known = [what, who, success].filter(Boolean).length;
+  const percentage = Math.min(95, known * 25 + Math.min(turn, 4) * 5);
+
+  const lines: string[] = [];
+  if (turn === 1) {
+    lines.push(`Let's slow down before jumping to solutions. You're looking at: **${what}**.`);
+  } else {
+    lines.push(`Got it - "${summarize(latest)}".`);
+  }
+  if (newIdea) {
+    lines.push(`I've parked "${summarize(newIdea)}" so we can come back to it once the problem is sharp.`);
+  }
+
+  if (!who) {
+    lines.push("**Who** feels this problem most? Describe one specific person and the moment it hurts.");
+  } else if (!success) {
+    lines.push("If we solved this perfectly, **what would be different**? How would you measure success?");
+  } else if (turn % 2 === 0) {
+    lines.push(`Let's challenge an assumption: why hasn't anyone solved "${what}" already? What are people doing instead today?`);
+  } else {
+    lines.push("What's the smallest experiment that would tell you whether this problem is worth solving?");
+  }
+
+  lines.push("_Offline mode - this is a scripted Larry, not the live agent._");
+
+  const metadata: LarryMetadataEnvelope = {
+    version: LARRY_METADATA_VERSION,
+    clarity: { percentage, what, who: who ?? null, success: success ?? null },
+    stats: {
+      questions_asked: turn,
+      parked_ideas: parkedIdeas.length,
+      assumptions_challenged: Math.max(0, Math.floor((turn - 1) / 2)),
+    },
+    parked_ideas: parkedIdeas.map((idea) => summarize(idea)),
+  };
+
+  return `${lines.join("\n\n")}\n\n\`\`\`larry-metadata\n${JSON.stringify(metadata, null, 2)}\n\`\`\``;
+}
+
+function scriptDeepDive(opportunity: Opportunity, focus: string): { result: string; insights: string[] } {
+  const label = focus.replace(/_/g, " ");
+  const problem = opportunity.problem_statement || opportunity.description || opportunity.name;
+  const audience = opportunity.target_audience || "the people who feel this problem";
+
+  const result = [
+    `Here's a first pass at **${label}** for "${opportunity.name}".`,
+    `- **Problem:** ${problem}`,
+    `- **Audience:** ${audience}`,
+    `- **Next step:** talk to five people in that audience and ask how they handle this today.`,
+    "_Offline mode - this analysis is scripted, not generated by the live agent._",
+  ].join("\n");
+
+  const insights = [
+    opportunity.csio_score !== undefined
+      ? `CSIO score of ${Math.round(opportunity.csio_score * 100)}% - ${opportunity.csio_score >= 0.7 ? "worth prioritising" : "needs more evidence"}`
+      : "No CSIO score yet - score it after the first round of interviews",
+    `${opportunity.deep_dive_count} deep dive${opportunity.deep_dive_count === 1 ? "" : "s"} so far`,
+    opportunity.tags.length > 0
+      ? `Look for existing solutions tagged ${opportunity.tags.slice(0, 3).join(", ")}`
+      : "Add tags to compare this with similar opportunities",
+  ];
+
+  return { result, insights };
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function findSentence(messages: string[], pattern: RegExp): string | undefined {
+  for (const message of messages) {
+    const sentence = splitSentences(message).find((candidate) => pattern.test(candidate));
+    if (sentence) return summarize(sentence);
+  }
+  return undefined;
+}
+
+function summarize(text: string, maxLength = 80): string {
+  const clean = text.replace(/\s+/g, " ").trim().replace(/[.!?]+$/, "");
+  return clean.length > maxLength ? `${clean.slice(0, maxLength - 3).trimEnd()}...` : clean;
+}
+
+// Storage
+
+function readDatabase(): MockDatabase {
+  if (typeof window === "undefined") return (memoryDatabase ??= createSeedDatabase());
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return (memoryDatabase ??= createSeedDatabase());
+
+    const parsed = JSON.parse(stored);
+    return {
+      opportunities: Array.isArray(parsed.opportunities) ? parsed.opportunities : [],
+      sessions: parsed.sessions && typeof parsed.sessions === "object" ? parsed.sessions : {},
+    };
+  } catch (error) {
+    console.error("Failed to read offline data:", error);
+    return (memoryDatabase ??= createSeedDatabase());
+  }
+}
+
+function writeDatabase(database: MockDatabase): void {
+  memoryDatabase = database;
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(database));
+  } catch (error) {
+    console.error("Failed to save offline data:", error);
+  }
+}
+
+function createSeedDatabase(): MockDatabase {
+  return { opportunities: SEED_OPPORTUNITIES.map((opportunity) => ({ ...opportunity })), sessions: {} };
+}
+
+// Helpers
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function notFound(id: string): Response {
+  return json({ detail: `Opportunity ${id} not found` }, 404);
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function isMockMessage(value: unknown): value is MockMessage {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (entry.role === "user" || entry.role === "assistant") && typeof entry.content === "string";
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * Offline Mode Switch
+ *
+ * When enabled, the API client serves every /api/v1 call from the
+ * in-browser mock backend (src/lib/mock-backend) instead of Render.
+ * - Persisted per browser
+ * - Defaults on when NEXT_PUBLIC_OFFLINE_MODE=1
+ */
+
+const OFFLINE_MODE_KEY = "mindrian:offline-mode";
+const OFFLINE_BY_DEFAULT = process.env.NEXT_PUBLIC_OFFLINE_MODE === "1";
+
+const listeners = new Set<() => void>();
+
+export function isOfflineMode(): boolean {
+  if (typeof window === "undefined") return OFFLINE_BY_DEFAULT;
+  try {
+    const stored = window.localStorage.getItem(OFFLINE_MODE_KEY);
+    return stored === null ? OFFLINE_BY_DEFAULT : stored === "1";
+  } catch {
+    return OFFLINE_BY_DEFAULT;
+  }
+}
+
+export function isOfflineModeOnServer(): boolean {
+  return OFFLINE_BY_DEFAULT;
+}
+
+export function setOfflineMode(enabled: boolean): void {
+  try {
+    window.localStorage.setItem(OFFLINE_MODE_KEY, enabled ? "1" : "0");
+  } catch (error) {
+    console.error("Failed to save offline mode:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeOfflineMode(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
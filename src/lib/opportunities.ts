@@ -0,0 +1,67 @@
+/**
+ * Opportunity Service
+ *
+ * Shared write path into the Bank of Opportunities.
+ * Used by Smart Paste, by banking parked ideas from Larry sessions,
+ * and by editing, archiving and deleting opportunities.
+ */
+
+import type { SmartPasteResult } from "@/lib/ai-service";
+import { api } from "@/lib/api-client";
+import type { CreatedOpportunity, Opportunity } from "@/lib/schemas";
+
+export type { CreatedOpportunity };
+
+export interface NewOpportunity {
+  name: string;
+  description?: string;
+  problem_statement?: string;
+  target_audience?: string;
+  tags: string[];
+  priority: string;
+  status: string;
+  source_session_id?: string; // Larry session the opportunity was banked from
+}
+
+/**
+ * Fields the editor can change - id, timestamps and counters belong to the backend
+ */
+export type OpportunityPatch = Partial<Omit<Opportunity, "id" | "created_at" | "updated_at" | "deep_dive_count">>;
+
+/**
+ * Map a Smart Paste form result to the create payload
+ */
+export function opportunityFromSmartPaste(data: SmartPasteResult): NewOpportunity {
+  return {
+    name: data.title || "New Opportunity",
+    description: data.description,
+    problem_statement: data.problem_statement,
+    target_audience: data.target_audience,
+    tags: data.tags || [],
+    priority: data.priority || "medium",
+    status: "exploring",
+  };
+}
+
+/**
+ * POST /api/v1/opportunities
+ * Throws an ApiError when the backend rejects the request
+ */
+export function createOpportunity(opportunity: NewOpportunity): Promise<CreatedOpportunity> {
+  return api.opportunities.create(opportunity);
+}
+
+/**
+ * PATCH /api/v1/opportunities/{id}
+ * Resolves with the saved opportunity; throws an ApiError when the backend rejects the change
+ */
+export function updateOpportunity(id: string, patch: OpportunityPatch, signal?: AbortSignal): Promise<Opportunity> {
+  return api.opportunities.update(id, patch, signal);
+}
+
+/**
+ * DELETE /api/v1/opportunities/{id} - permanent
+ */
+export function deleteOpportunity(id: string, signal?: AbortSignal): Promise<void> {
+  return api.opportunities.delete(id, signal);
+}
@@ -0,0 +1,123 @@
+/**
+ * Opportunity Activity
+ *
+ * Keeps what happens on the deep-dive page so other views can show it without a round trip.
+ * - Latest deep-dive result and insights per opportunity
+ * - Saved notes per opportunity (the backend has no notes endpoint yet)
+ * - localStorage persistence
+ * - Subscribable for useSyncExternalStore
+ */
+
+export interface DeepDiveRecord {
+  focus: string;
+  summary?: string;
+  insights: string[];
+  at: string;
+}
+
+export interface NoteBlock {
+  id: string;
+  type: "text" | "heading" | "bullet" | "quote" | "code" | "ai-insight";
+  content: string;
+}
+
+export interface NotesRecord {
+  blocks: NoteBlock[];
+  savedAt: string;
+}
+
+export interface OpportunityActivity {
+  deepDives: Record<string, DeepDiveRecord>;
+  notes: Record<string, NotesRecord>;
+}
+
+const STORAGE_KEY = "mindrian:opportunity-activity:v1";
+const EMPTY_ACTIVITY: OpportunityActivity = { deepDives: {}, notes: {} };
+
+let activity: OpportunityActivity | null = null;
+const listeners = new Set<() => void>();
+
+export function getOpportunityActivity(): OpportunityActivity {
+  if (!activity) activity = loadActivity();
+  return activity;
+}
+
+export function getServerOpportunityActivity(): OpportunityActivity {
+  return EMPTY_ACTIVITY;
+}
+
+export function subscribeOpportunityActivity(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function recordDeepDive(opportunityId: string, record: Omit<DeepDiveRecord, "at">, at = new Date()): void {
+  const current = getOpportunityActivity();
+  update({ ...current, deepDives: { ...current.deepDives, [opportunityId]: { ...record, at: at.toISOString() } } });
+}
+
+export function saveOpportunityNotes(opportunityId: string, blocks: NoteBlock[], at = new Date()): void {
+  const current = getOpportunityActivity();
+  const notes = { ...current.notes };
+  if (blocks.some((block) => block.content.trim())) notes[opportunityId] = { blocks, savedAt: at.toISOString() };
+  else delete notes[opportunityId];
+  update({ ...current, notes });
+}
+
+/**
+ * First few lines of the notes as plain text
+ */
+export function previewNotes(record: NotesRecord | undefined, maxLength = 240): string {
+  if (!record) return "";
+  const text = record.blocks
+    .map((block) => block.content.trim())
+    .filter(Boolean)
+    .join(" · ");
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function update(next: OpportunityActivity): void {
+  activity = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Activity still shows for this page without storage
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function loadActivity(): OpportunityActivity {
+  if (typeof window === "undefined") return EMPTY_ACTIVITY;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return EMPTY_ACTIVITY;
+    const parsed: unknown = JSON.parse(stored);
+    if (!isRecord(parsed)) return EMPTY_ACTIVITY;
+    return {
+      deepDives: pickEntries(parsed.deepDives, isDeepDiveRecord),
+      notes: pickEntries(parsed.notes, isNotesRecord),
+    };
+  } catch {
+    return EMPTY_ACTIVITY;
+  }
+}
+
+/**
+ * Entries of a stored map that still have the expected shape
+ */
+function pickEntries<T>(value: unknown, isValid: (entry: unknown) => entry is T): Record<string, T> {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, T] => isValid(entry[1])));
+}
+
+function isDeepDiveRecord(value: unknown): value is DeepDiveRecord {
+  return isRecord(value) && typeof value.focus === "string" && Array.isArray(value.insights) && typeof value.at === "string";
+}
+
+function isNotesRecord(value: unknown): value is NotesRecord {
+  return isRecord(value) && Array.isArray(value.blocks) && typeof value.savedAt === "string";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,197 @@
+/**
+ * Opportunity Batch Actions
+ *
+ * Applies one edit to many opportunities from the grid selection, or saves rows edited in the grid.
+ * - Status change (with one rationale for the whole batch), priority, add / remove tags, archive
+ * - Inline cell edits are diffed and validated row by row - status is left to the batch action, which asks for a rationale
+ * - Each row is planned on its own, so rows the status workflow rejects fail without blocking the rest
+ * - Per-row results for partial failures
+ */
+
+import { describeRejection, isApiError } from "@/lib/api-client";
+import { archiveStatus, transitionStatus, type OpportunityStatus } from "@/lib/opportunity-status";
+import type { OpportunityPatch } from "@/lib/opportunities";
+import type { Opportunity } from "@/lib/schemas";
+
+export type BatchEdit =
+  | { kind: "status"; to: OpportunityStatus; rationale: string }
+  | { kind: "priority"; priority: string }
+  | { kind: "add_tags"; tags: string[] }
+  | { kind: "remove_tags"; tags: string[] }
+  | { kind: "archive" };
+
+export type BatchPlanItem =
+  | { opportunity: Opportunity; ok: true; patch: OpportunityPatch; rollback: OpportunityPatch }
+  | { opportunity: Opportunity; ok: false; error: string };
+
+export interface BatchRowResult {
+  id: string;
+  name: string;
+  ok: boolean;
+  error?: string;
+}
+
+export const BATCH_PRIORITIES = ["high", "medium", "low"] as const;
+
+// Fields the grid can edit - inline or through the long text dialog
+export const EDITABLE_FIELDS = [
+  "name",
+  "description",
+  "problem_statement",
+  "target_audience",
+  "priority",
+  "csio_score",
+  "tags",
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+export type RowEdit = Partial<Record<EditableField, unknown>>;
+
+/**
+ * Work out the patch for every selected row - rows with nothing to change or an invalid move come back as failures
+ */
+export function planBatch(opportunities: Opportunity[], edit: BatchEdit, at = new Date()): BatchPlanItem[] {
+  return opportunities.map((opportunity) => {
+    switch (edit.kind) {
+      case "status": {
+        const result = transitionStatus(opportunity, edit.to, edit.rationale, at);
+        return result.ok
+          ? { opportunity, ok: true, patch: result.patch, rollback: statusRollback(opportunity) }
+          : { opportunity, ok: false, error: result.error };
+      }
+      case "archive":
+        return opportunity.status === "archived"
+          ? { opportunity, ok: false, error: "Already archived" }
+          : { opportunity, ok: true, patch: archiveStatus(opportunity, undefined, at), rollback: statusRollback(opportunity) };
+      case "priority":
+        return opportunity.priority === edit.priority
+          ? { opportunity, ok: false, error: `Already ${edit.priority} priority` }
+          : { opportunity, ok: true, patch: { priority: edit.priority }, rollback: { priority: opportunity.priority } };
+      case "add_tags":
+      case "remove_tags": {
+        const tags =
+          edit.kind === "add_tags"
+            ? [...new Set([...opportunity.tags, ...edit.tags])]
+            : opportunity.tags.filter((tag) => !edit.tags.includes(tag));
+        return tags.length === opportunity.tags.length
+          ? { opportunity, ok: false, error: edit.kind === "add_tags" ? "Already tagged" : "No matching tags" }
+          : { opportunity, ok: true, patch: { tags }, rollback: { tags: opportunity.tags } };
+      }
+    }
+  });
+}
+
+/**
+ * Diff an edited row against the original and validate it - null when nothing changed
+ */
+export function planRowEdit(opportunity: Opportunity, edit: RowEdit): BatchPlanItem | null {
+  const patch: OpportunityPatch = {};
+  const rollback: OpportunityPatch = {};
+  const errors: string[] = [];
+
+  for (const field of EDITABLE_FIELDS) {
+    if (!(field in edit) || isSameValue(edit[field], opportunity[field])) continue;
+    const checked = validateField(field, edit[field]);
+    if ("error" in checked) {
+      errors.push(checked.error);
+      continue;
+    }
+    if (isSameValue(checked.value, opportunity[field])) continue;
+
+    Object.assign(patch, { [field]: checked.value });
+    Object.assign(rollback, { [field]: opportunity[field] });
+  }
+
+  if (errors.length > 0) return { opportunity, ok: false, error: errors.join("; ") };
+  if (Object.keys(patch).length === 0) return null;
+  return { opportunity, ok: true, patch, rollback };
+}
+
+/**
+ * Plan every row the grid reports as changed
+ */
+export function planGridEdits(opportunities: Opportunity[], editedRows: RowEdit[]): BatchPlanItem[] {
+  return editedRows.flatMap((row) => {
+    const opportunity = opportunities.find((o) => o.id === (row as { id?: unknown }).id);
+    const item = opportunity ? planRowEdit(opportunity, pickEditable(row)) : null;
+    return item ? [item] : [];
+  });
+}
+
+export function describeBatchEdit(edit: BatchEdit): string {
+  switch (edit.kind) {
+    case "status":
+      return `Move to ${edit.to}`;
+    case "archive":
+      return "Archive";
+    case "priority":
+      return `Set priority to ${edit.priority}`;
+    case "add_tags":
+      return `Add ${formatTags(edit.tags)}`;
+    case "remove_tags":
+      return `Remove ${formatTags(edit.tags)}`;
+  }
+}
+
+/**
+ * Short reason for a row the backend refused
+ */
+export function describeBatchFailure(error: unknown): string {
+  if (isApiError(error)) {
+    if (error.kind === "http" && (error.status ?? 0) < 500) return describeRejection(error.body) ?? error.message;
+    if (error.kind === "timeout" || error.kind === "network") return "Server unreachable";
+    return error.message;
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Split comma-separated tag input into clean values
+ */
+export function parseTagInput(value: string): string[] {
+  return [...new Set(value.split(",").map((tag) => tag.trim()).filter(Boolean))];
+}
+
+function validateField(field: EditableField, value: unknown): { value: unknown } | { error: string } {
+  switch (field) {
+    case "name": {
+      const name = typeof value === "string" ? value.trim() : "";
+      return name ? { value: name } : { error: "Name is required" };
+    }
+    // An empty string clears the field - undefined would be dropped from the PATCH body
+    case "description":
+    case "problem_statement":
+    case "target_audience":
+      return { value: typeof value === "string" ? value.trim() : "" };
+    case "priority":
+      return (BATCH_PRIORITIES as readonly unknown[]).includes(value)
+        ? { value }
+        : { error: `Priority must be ${BATCH_PRIORITIES.join(", ")}` };
+    case "csio_score":
+      return typeof value === "number" && value >= 0 && value <= 1
+        ? { value }
+        : { error: "CSIO score must be between 0 and 1" };
+    case "tags":
+      return Array.isArray(value)
+        ? { value: [...new Set(value.map((tag) => String(tag).trim()).filter(Boolean))] }
+        : { error: "Tags must be a list" };
+  }
+}
+
+function pickEditable(row: RowEdit): RowEdit {
+  return Object.fromEntries(EDITABLE_FIELDS.filter((field) => field in row).map((field) => [field, row[field]]));
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((value, i) => value === b[i]);
+  return (a ?? null) === (b ?? null); // Grid rows carry null for fields that were never set
+}
+
+function statusRollback(opportunity: Opportunity): OpportunityPatch {
+  return { status: opportunity.status, status_history: opportunity.status_history ?? [] };
+}
+
+function formatTags(tags: string[]): string {
+  return tags.map((tag) => `"${tag}"`).join(", ");
+}
@@ -0,0 +1,82 @@
+/**
+ * Opportunity Export
+ *
+ * Turns opportunities from the Bank into spreadsheet-friendly files.
+ * - CSV with one row per opportunity
+ * - Cell formatting shared with the grid's Excel / CSV / PDF export
+ * - Lists (tags, domains) joined with semicolons, CSIO score as a percentage
+ * - Text that a spreadsheet would run as a formula is prefixed with '
+ */
+
+import type { Opportunity } from "@/lib/schemas";
+
+export type AnomalyFlag = "high_performer" | "needs_attention";
+
+export const ANOMALY_LABELS: Record<AnomalyFlag, string> = {
+  high_performer: "High performer",
+  needs_attention: "Needs attention",
+};
+
+const CSV_COLUMNS: Array<{ header: string; value: (opportunity: Opportunity) => string | number | undefined }> = [
+  { header: "ID", value: (o) => o.id },
+  { header: "Name", value: (o) => o.name },
+  { header: "Description", value: (o) => o.description },
+  { header: "Problem Statement", value: (o) => o.problem_statement },
+  { header: "Target Audience", value: (o) => o.target_audience },
+  { header: "Status", value: (o) => o.status },
+  { header: "Priority", value: (o) => o.priority },
+  { header: "CSIO Score", value: (o) => formatCsioScore(o.csio_score) },
+  { header: "Tags", value: (o) => formatList(o.tags) },
+  { header: "Domains", value: (o) => formatList(o.domains) },
+  { header: "Created", value: (o) => o.created_at },
+  { header: "Updated", value: (o) => o.updated_at },
+];
+
+export function toOpportunityCsv(opportunities: Opportunity[]): string {
+  const rows = [
+    CSV_COLUMNS.map((column) => column.header),
+    ...opportunities.map((opportunity) => CSV_COLUMNS.map((column) => column.value(opportunity))),
+  ];
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+}
+
+/**
+ * Export text for grid fields that don't read well raw - undefined leaves the cell as it is
+ */
+export function formatExportValue(field: string | undefined, opportunity: Opportunity): string | undefined {
+  switch (field) {
+    case "tags":
+      return formatList(opportunity.tags);
+    case "domains":
+      return formatList(opportunity.domains);
+    case "csio_score":
+      return formatCsioScore(opportunity.csio_score);
+    default:
+      return undefined;
+  }
+}
+
+export function formatCsioScore(score: number | null | undefined): string {
+  return typeof score === "number" ? `${Math.round(score * 100)}%` : "";
+}
+
+export function formatList(values: string[] | undefined): string {
+  return (values ?? []).join("; ");
+}
+
+/**
+ * Names, descriptions and tags come from users and the AI - keep spreadsheets from running them as formulas
+ */
+export function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+export function exportFileName(extension: string, at = new Date()): string {
+  return `opportunities-${at.toISOString().slice(0, 10)}.${extension}`;
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  const text = typeof value === "string" ? neutralizeFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,232 @@
+/**
+ * Opportunity Filters
+ *
+ * One filter model for the Bank of Opportunities, shared by cards, table and charts.
+ * - Full-text search over name, description and problem statement
+ * - Multi-select status / priority / tag / domain filters
+ * - CSIO score range (0-100)
+ * - Staleness - not updated for N days
+ * - Sort options
+ * - Round-trips through URL query params so filtered views can be shared
+ */
+
+import type { Opportunity } from "@/lib/schemas";
+
+export type OpportunitySort =
+  | "updated_desc"
+  | "created_desc"
+  | "name_asc"
+  | "score_desc"
+  | "score_asc"
+  | "priority_desc";
+
+export interface OpportunityFilters {
+  query: string;
+  statuses: string[];
+  priorities: string[];
+  tags: string[];
+  domains: string[];
+  minScore: number; // 0-100
+  maxScore: number; // 0-100
+  staleDays: number; // 0 = any age
+  sort: OpportunitySort;
+}
+
+export interface FilterFacets {
+  statuses: FacetOption[];
+  priorities: FacetOption[];
+  tags: FacetOption[];
+  domains: FacetOption[];
+}
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+export const DEFAULT_FILTERS: OpportunityFilters = {
+  query: "",
+  statuses: [],
+  priorities: [],
+  tags: [],
+  domains: [],
+  minScore: 0,
+  maxScore: 100,
+  staleDays: 0,
+  sort: "updated_desc",
+};
+
+export const STALE_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: "Any age" },
+  { value: 14, label: "Stale 14+ days" },
+  { value: 30, label: "Stale 30+ days" },
+  { value: 90, label: "Stale 90+ days" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SORT_OPTIONS: Array<{ value: OpportunitySort; label: string }> = [
+  { value: "updated_desc", label: "Recently updated" },
+  { value: "created_desc", label: "Newest" },
+  { value: "name_asc", label: "Name (A-Z)" },
+  { value: "score_desc", label: "CSIO score (high to low)" },
+  { value: "score_asc", label: "CSIO score (low to high)" },
+  { value: "priority_desc", label: "Priority" },
+];
+
+const PRIORITY_RANK: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+// Query param names - short so shared links stay readable
+const PARAMS = {
+  query: "q",
+  statuses: "status",
+  priorities: "priority",
+  tags: "tag",
+  domains: "domain",
+  minScore: "min",
+  maxScore: "max",
+  staleDays: "stale",
+  sort: "sort",
+} as const;
+
+/**
+ * Filter and sort - unscored opportunities only drop out once the score range is narrowed
+ */
+export function applyFilters(opportunities: Opportunity[], filters: OpportunityFilters, now = new Date()): Opportunity[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const scoreFiltered = filters.minScore > 0 || filters.maxScore < 100;
+  const staleBefore = filters.staleDays > 0 ? now.getTime() - filters.staleDays * DAY_MS : null;
+
+  const matches = opportunities.filter((opportunity) => {
+    if (terms.length > 0) {
+      const haystack = [opportunity.name, opportunity.description, opportunity.problem_statement ?? ""]
+        .join(" ")
+        .toLowerCase();
+      if (!terms.every((term) => haystack.includes(term))) return false;
+    }
+    if (filters.statuses.length > 0 && !filters.statuses.includes(opportunity.status)) return false;
+    if (filters.priorities.length > 0 && !filters.priorities.includes(opportunity.priority)) return false;
+    if (filters.tags.length > 0 && !filters.tags.some((tag) => opportunity.tags.includes(tag))) return false;
+    if (filters.domains.length > 0 && !filters.domains.some((domain) => opportunity.domains.includes(domain))) {
+      return false;
+    }
+    if (scoreFiltered) {
+      if (opportunity.csio_score === undefined) return false;
+      const score = opportunity.csio_score * 100;
+      if (score < filters.minScore || score > filters.maxScore) return false;
+    }
+    if (staleBefore !== null && !(Date.parse(opportunity.updated_at) <= staleBefore)) return false;
+    return true;
+  });
+
+  return sortOpportunities(matches, filters.sort);
+}
+
+export function sortOpportunities(opportunities: Opportunity[], sort: OpportunitySort): Opportunity[] {
+  const sorted = [...opportunities];
+  switch (sort) {
+    case "updated_desc":
+      return sorted.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    case "created_desc":
+      return sorted.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    case "name_asc":
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    case "score_desc":
+      return sorted.sort((a, b) => (b.csio_score ?? -1) - (a.csio_score ?? -1));
+    case "score_asc":
+      return sorted.sort((a, b) => (a.csio_score ?? 2) - (b.csio_score ?? 2));
+    case "priority_desc":
+      return sorted.sort((a, b) => (PRIORITY_RANK[b.priority] ?? 0) - (PRIORITY_RANK[a.priority] ?? 0));
+  }
+}
+
+/**
+ * Values present in the data, most common first, for the multi-select menus
+ */
+export function getFilterFacets(opportunities: Opportunity[]): FilterFacets {
+  return {
+    statuses: countValues(opportunities.map((o) => [o.status])),
+    priorities: countValues(opportunities.map((o) => [o.priority])),
+    tags: countValues(opportunities.map((o) => o.tags)),
+    domains: countValues(opportunities.map((o) => o.domains)),
+  };
+}
+
+export function countActiveFilters(filters: OpportunityFilters): number {
+  return (
+    (filters.query.trim() ? 1 : 0) +
+    filters.statuses.length +
+    filters.priorities.length +
+    filters.tags.length +
+    filters.domains.length +
+    (filters.minScore > 0 || filters.maxScore < 100 ? 1 : 0) +
+    (filters.staleDays > 0 ? 1 : 0)
+  );
+}
+
+/**
+ * Read filters from the URL - unknown or malformed values fall back to the defaults
+ */
+export function parseFilterParams(params: URLSearchParams): OpportunityFilters {
+  const sort = params.get(PARAMS.sort);
+  const minScore = clampScore(params.get(PARAMS.minScore), DEFAULT_FILTERS.minScore);
+  const maxScore = clampScore(params.get(PARAMS.maxScore), DEFAULT_FILTERS.maxScore);
+
+  return {
+    query: params.get(PARAMS.query) ?? "",
+    statuses: readList(params, PARAMS.statuses),
+    priorities: readList(params, PARAMS.priorities),
+    tags: readList(params, PARAMS.tags),
+    domains: readList(params, PARAMS.domains),
+    minScore: Math.min(minScore, maxScore),
+    maxScore: Math.max(minScore, maxScore),
+    staleDays: readStaleDays(params.get(PARAMS.staleDays)),
+    sort: SORT_OPTIONS.some((option) => option.value === sort) ? (sort as OpportunitySort) : DEFAULT_FILTERS.sort,
+  };
+}
+
+/**
+ * Write filters into query params, leaving out anything at its default
+ * Other params already in `base` are kept
+ */
+export function toFilterParams(filters: OpportunityFilters, base?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(base);
+  Object.values(PARAMS).forEach((name) => params.delete(name));
+
+  if (filters.query.trim()) params.set(PARAMS.query, filters.query);
+  filters.statuses.forEach((value) => params.append(PARAMS.statuses, value));
+  filters.priorities.forEach((value) => params.append(PARAMS.priorities, value));
+  filters.tags.forEach((value) => params.append(PARAMS.tags, value));
+  filters.domains.forEach((value) => params.append(PARAMS.domains, value));
+  if (filters.minScore !== DEFAULT_FILTERS.minScore) params.set(PARAMS.minScore, String(filters.minScore));
+  if (filters.maxScore !== DEFAULT_FILTERS.maxScore) params.set(PARAMS.maxScore, String(filters.maxScore));
+  if (filters.staleDays !== DEFAULT_FILTERS.staleDays) params.set(PARAMS.staleDays, String(filters.staleDays));
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set(PARAMS.sort, filters.sort);
+
+  return params;
+}
+
+function readList(params: URLSearchParams, name: string): string[] {
+  return [...new Set(params.getAll(name).filter(Boolean))];
+}
+
+function clampScore(value: string | null, fallback: number): number {
+  if (value === null || value.trim() === "") return fallback;
+  const score = Number(value);
+  return Number.isFinite(score) ? Math.min(100, Math.max(0, Math.round(score))) : fallback;
+}
+
+function readStaleDays(value: string | null): number {
+  const days = Number(value);
+  return value !== null && Number.isInteger(days) && days > 0 ? days : DEFAULT_FILTERS.staleDays;
+}
+
+function countValues(groups: string[][]): FacetOption[] {
+  const counts = new Map<string, number>();
+  groups.forEach((values) => {
+    new Set(values).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
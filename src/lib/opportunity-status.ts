@@ -0,0 +1,115 @@
+/**
+ * Opportunity Status Workflow
+ *
+ * State machine for where an opportunity sits in the pipeline.
+ * - exploring → validated or parked, validated/parked → archived
+ * - Every transition needs a short rationale
+ * - Transitions are appended to the opportunity's status_history
+ * - Archive and restore work from any status and are recorded the same way
+ */
+
+import type { Opportunity, StatusTransition } from "@/lib/schemas";
+
+export const OPPORTUNITY_STATUSES = ["exploring", "validated", "parked", "archived"] as const;
+
+export type OpportunityStatus = (typeof OPPORTUNITY_STATUSES)[number];
+
+export const MIN_RATIONALE_LENGTH = 10;
+
+const TRANSITIONS: Record<OpportunityStatus, OpportunityStatus[]> = {
+  exploring: ["validated", "parked"],
+  validated: ["parked", "archived"],
+  parked: ["exploring", "validated", "archived"],
+  archived: [],
+};
+
+export const STATUS_COLORS: Record<string, string> = {
+  exploring: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+  validated: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
+  parked: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+  archived: "bg-gray-100 text-gray-700 dark:bg-gray-900 dark:text-gray-300",
+};
+
+export type StatusTransitionResult =
+  | { ok: true; patch: Pick<Opportunity, "status" | "status_history"> }
+  | { ok: false; error: string };
+
+export function isOpportunityStatus(value: string): value is OpportunityStatus {
+  return (OPPORTUNITY_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses reachable from `status` (unknown statuses from the backend can restart at exploring)
+ */
+export function getAllowedTransitions(status: string): OpportunityStatus[] {
+  return isOpportunityStatus(status) ? TRANSITIONS[status] : ["exploring"];
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return getAllowedTransitions(from).some((status) => status === to);
+}
+
+/**
+ * Board moves follow the workflow, plus archive from any column and restore to any stage
+ */
+export function canMoveOnBoard(from: string, to: string): boolean {
+  if (from === to || !isOpportunityStatus(to)) return false;
+  return canTransition(from, to) || to === "archived" || from === "archived";
+}
+
+/**
+ * Check a requested transition and build the update that records it
+ */
+export function transitionStatus(
+  opportunity: Opportunity,
+  to: string,
+  rationale: string,
+  at = new Date(),
+  isAllowed: (from: string, to: string) => boolean = canTransition
+): StatusTransitionResult {
+  const from = opportunity.status;
+  if (!isAllowed(from, to)) {
+    return { ok: false, error: `Can't move from ${from} to ${to}` };
+  }
+
+  const trimmed = rationale.trim();
+  if (trimmed.length < MIN_RATIONALE_LENGTH) {
+    return { ok: false, error: `Add a short rationale (at least ${MIN_RATIONALE_LENGTH} characters)` };
+  }
+
+  return { ok: true, patch: recordTransition(opportunity, to, trimmed, at) };
+}
+
+/**
+ * Archive from any status - the list actions don't ask for a rationale, so a default is recorded
+ */
+export function archiveStatus(
+  opportunity: Opportunity,
+  rationale = "Archived from the Bank of Opportunities",
+  at = new Date()
+): Pick<Opportunity, "status" | "status_history"> {
+  return recordTransition(opportunity, "archived", rationale, at);
+}
+
+/**
+ * Bring an archived opportunity back to the status it had before it was archived
+ */
+export function restoreStatus(
+  opportunity: Opportunity,
+  rationale = "Restored from the archive",
+  at = new Date()
+): Pick<Opportunity, "status" | "status_history"> {
+  const archivedFrom = [...(opportunity.status_history ?? [])].reverse().find((entry) => entry.to === "archived")?.from;
+  const to = archivedFrom && archivedFrom !== "archived" ? archivedFrom : "exploring";
+  return recordTransition(opportunity, to, rationale, at);
+}
+
+function recordTransition(
+  opportunity: Opportunity,
+  to: string,
+  rationale: string,
+  at: Date
+): Pick<Opportunity, "status" | "status_history"> {
+  const transition: StatusTransition = { from: opportunity.status, to, rationale, at: at.toISOString() };
+  return { status: to, status_history: [...(opportunity.status_history ?? []), transition] };
+}
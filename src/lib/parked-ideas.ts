@@ -0,0 +1,139 @@
+/**
+ * Parked Idea Tracking
+ *
+ * Gives Larry's parked ideas a stable identity across turns and keeps
+ * the user's own state for each idea.
+ * - Content-hashed ids (same text = same idea)
+ * - First-seen turn and timestamp
+ * - Star, note, dismiss and merge actions that survive later responses
+ */
+
+import type { ParkedIdea } from "@/lib/larry-metadata";
+
+export interface ParkedIdeaUserState {
+  starred?: boolean;
+  dismissed?: boolean;
+  note?: string;
+  mergedInto?: string; // id of the idea this one was merged into
+  opportunityId?: string; // set once the idea is banked
+}
+
+export interface TrackedParkedIdea extends ParkedIdea, ParkedIdeaUserState {
+  firstSeenTurn: number;
+  lastSeenTurn: number;
+}
+
+/**
+ * Stable id derived from the idea text (FNV-1a over normalized text)
+ */
+export function getParkedIdeaId(text: string): string {
+  const normalized = text
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?,;:]+$/, "")
+    .trim();
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `idea-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Fold the ideas from the latest Larry response into the tracked list
+ * Known ideas keep their first-seen info and user state; new ones are appended
+ */
+export function reconcileParkedIdeas(
+  previous: TrackedParkedIdea[],
+  parsed: ParkedIdea[],
+  turn: number
+): TrackedParkedIdea[] {
+  const byId = new Map(previous.map((idea) => [idea.id, idea]));
+  const next = [...previous];
+
+  for (const idea of parsed) {
+    const existing = byId.get(idea.id);
+    if (existing) {
+      const index = next.indexOf(existing);
+      next[index] = { ...existing, lastSeenTurn: turn };
+      byId.set(idea.id, next[index]);
+    } else {
+      const tracked: TrackedParkedIdea = {
+        ...idea,
+        firstSeenTurn: turn,
+        lastSeenTurn: turn,
+      };
+      next.push(tracked);
+      byId.set(idea.id, tracked);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Bring ideas from sessions saved before tracking existed up to date
+ * Re-keys positional ids and folds the old text -> opportunity id map in
+ */
+export function restoreParkedIdeas(
+  stored: Array<ParkedIdea & Partial<TrackedParkedIdea>> = [],
+  bankedByText: Record<string, string> = {}
+): TrackedParkedIdea[] {
+  return stored.map((idea) => ({
+    ...idea,
+    id: getParkedIdeaId(idea.text),
+    firstSeenTurn: idea.firstSeenTurn ?? 0,
+    lastSeenTurn: idea.lastSeenTurn ?? idea.firstSeenTurn ?? 0,
+    opportunityId: idea.opportunityId ?? bankedByText[idea.text],
+  }));
+}
+
+export function updateParkedIdea(
+  ideas: TrackedParkedIdea[],
+  id: string,
+  changes: ParkedIdeaUserState
+): TrackedParkedIdea[] {
+  return ideas.map((idea) => (idea.id === id ? { ...idea, ...changes } : idea));
+}
+
+/**
+ * Merge one idea into another - the source is hidden and its note carried over
+ */
+export function mergeParkedIdeas(
+  ideas: TrackedParkedIdea[],
+  sourceId: string,
+  targetId: string
+): TrackedParkedIdea[] {
+  const source = ideas.find((idea) => idea.id === sourceId);
+  if (!source || sourceId === targetId) return ideas;
+
+  return ideas.map((idea) => {
+    if (idea.id === sourceId) {
+      return { ...idea, mergedInto: targetId, starred: false };
+    }
+    if (idea.id === targetId) {
+      const notes = [idea.note, source.note].filter(Boolean);
+      return {
+        ...idea,
+        starred: idea.starred || source.starred,
+        note: notes.length > 0 ? notes.join("\n") : undefined,
+      };
+    }
+    return idea;
+  });
+}
+
+/**
+ * Ideas that still show in the panel, starred first
+ */
+export function getActiveParkedIdeas(ideas: TrackedParkedIdea[]): TrackedParkedIdea[] {
+  return ideas
+    .filter((idea) => !idea.dismissed && !idea.mergedInto)
+    .sort((a, b) => Number(!!b.starred) - Number(!!a.starred) || a.firstSeenTurn - b.firstSeenTurn);
+}
+
+export function getMergedIdeas(ideas: TrackedParkedIdea[], targetId: string): TrackedParkedIdea[] {
+  return ideas.filter((idea) => idea.mergedInto === targetId);
+}
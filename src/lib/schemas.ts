@@ -0,0 +1,257 @@
+/**
+ * Backend Response Schemas
+ *
+ * Runtime validation for everything the Agno backend sends back.
+ * - One Opportunity type shared by every page and component
+ * - Missing optional fields are normalized to safe defaults
+ * - Missing required fields raise a SchemaError listing each problem
+ * - List payloads skip bad rows and report them instead of failing outright
+ */
+
+import type { SmartPasteResult, DiagramResult, DiagramNode, DiagramConnection } from "@/lib/ai-service";
+
+export interface Opportunity {
+  id: string;
+  name: string;
+  description: string;
+  problem_statement?: string;
+  target_audience?: string;
+  domains: string[];
+  csio_score?: number; // 0-1
+  priority: string;
+  status: string;
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+  deep_dive_count: number;
+  source_session_id?: string; // Larry session the opportunity was banked from
+  status_history?: StatusTransition[]; // Oldest first
+}
+
+/**
+ * One recorded status change - see src/lib/opportunity-status
+ */
+export interface StatusTransition {
+  from: string;
+  to: string;
+  rationale: string;
+  at: string;
+}
+
+export interface CreatedOpportunity {
+  id: string;
+  [key: string]: unknown;
+}
+
+export interface OpportunityList {
+  opportunities: Opportunity[];
+  issues: string[]; // Rows that were skipped, and why
+}
+
+export interface SessionResponse {
+  session_id?: string;
+}
+
+export interface ChatResponse {
+  response?: string;
+  metadata?: unknown;
+}
+
+export interface DeepDiveResponse {
+  result?: string;
+  insights: string[];
+}
+
+export class SchemaError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join("; "));
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+const DIAGRAM_NODE_TYPES: DiagramNode["type"][] = ["start", "process", "decision", "end"];
+
+export function parseOpportunity(value: unknown, path = "opportunity"): Opportunity {
+  const issues: string[] = [];
+  if (!isRecord(value)) throw new SchemaError([`${path} must be an object`]);
+
+  const id = typeof value.id === "number" ? String(value.id) : value.id;
+  if (typeof id !== "string" || !id) issues.push(`${path}.id is missing`);
+  if (typeof value.name !== "string" || !value.name.trim()) issues.push(`${path}.name is missing`);
+  const csioScore = value.csio_score ?? undefined;
+  if (csioScore !== undefined && !isScore(csioScore)) issues.push(`${path}.csio_score must be a number from 0 to 1`);
+  if (issues.length > 0) throw new SchemaError(issues);
+
+  return {
+    id: id as string,
+    name: value.name as string,
+    description: optionalString(value.description) ?? "",
+    problem_statement: optionalString(value.problem_statement),
+    target_audience: optionalString(value.target_audience),
+    domains: stringArray(value.domains),
+    csio_score: isScore(csioScore) ? csioScore : undefined,
+    priority: optionalString(value.priority) ?? "medium",
+    status: optionalString(value.status) ?? "exploring",
+    tags: stringArray(value.tags),
+    created_at: optionalString(value.created_at) ?? "",
+    updated_at: optionalString(value.updated_at) ?? optionalString(value.created_at) ?? "",
+    deep_dive_count: Number.isInteger(value.deep_dive_count) ? (value.deep_dive_count as number) : 0,
+    source_session_id: optionalString(value.source_session_id),
+    status_history: parseStatusHistory(value.status_history),
+  };
+}
+
+/**
+ * POST /api/v1/opportunities only has to hand back the new id
+ */
+export function parseCreatedOpportunity(value: unknown): CreatedOpportunity {
+  if (!isRecord(value)) throw new SchemaError(["created opportunity must be an object"]);
+  const id = typeof value.id === "number" ? String(value.id) : value.id;
+  if (typeof id !== "string" || !id) throw new SchemaError(["created opportunity has no id"]);
+  return { ...value, id };
+}
+
+/**
+ * GET /api/v1/opportunities - accepts `{ opportunities: [...] }` or a bare array
+ */
+export function parseOpportunityList(value: unknown): OpportunityList {
+  const rows = Array.isArray(value) ? value : isRecord(value) ? value.opportunities : undefined;
+  if (rows === undefined || rows === null) return { opportunities: [], issues: [] };
+  if (!Array.isArray(rows)) throw new SchemaError(["opportunities must be an array"]);
+
+  const opportunities: Opportunity[] = [];
+  const issues: string[] = [];
+  rows.forEach((row, i) => {
+    try {
+      opportunities.push(parseOpportunity(row, `opportunities[${i}]`));
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      issues.push(...error.issues);
+    }
+  });
+
+  return { opportunities, issues };
+}
+
+export function parseSmartPasteResult(value: unknown): SmartPasteResult {
+  if (!isRecord(value)) throw new SchemaError(["extracted opportunity must be an object"]);
+  return {
+    title: optionalString(value.title),
+    description: optionalString(value.description),
+    problem_statement: optionalString(value.problem_statement),
+    target_audience: optionalString(value.target_audience),
+    tags: stringArray(value.tags),
+    priority: optionalString(value.priority),
+  };
+}
+
+export function parseDiagramResult(value: unknown): DiagramResult {
+  if (!isRecord(value)) throw new SchemaError(["diagram must be an object"]);
+  const issues: string[] = [];
+
+  if (!Array.isArray(value.nodes)) issues.push("diagram.nodes must be an array");
+  if (value.connections !== undefined && !Array.isArray(value.connections)) {
+    issues.push("diagram.connections must be an array");
+  }
+  if (issues.length > 0) throw new SchemaError(issues);
+
+  const nodes: DiagramNode[] = [];
+  (value.nodes as unknown[]).forEach((node, i) => {
+    if (!isRecord(node) || typeof node.id !== "string") {
+      issues.push(`diagram.nodes[${i}].id is missing`);
+      return;
+    }
+    nodes.push({
+      id: node.id,
+      label: optionalString(node.label) ?? node.id,
+      type: DIAGRAM_NODE_TYPES.includes(node.type as DiagramNode["type"])
+        ? (node.type as DiagramNode["type"])
+        : "process",
+    });
+  });
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const connections: DiagramConnection[] = [];
+  ((value.connections as unknown[] | undefined) ?? []).forEach((connection, i) => {
+    if (!isRecord(connection) || !nodeIds.has(connection.source as string) || !nodeIds.has(connection.target as string)) {
+      issues.push(`diagram.connections[${i}] must link two known nodes`);
+      return;
+    }
+    connections.push({
+      source: connection.source as string,
+      target: connection.target as string,
+      label: optionalString(connection.label),
+    });
+  });
+
+  if (issues.length > 0) throw new SchemaError(issues);
+  return { nodes, connections, mermaidCode: optionalString(value.mermaidCode) ?? "" };
+}
+
+export function parseSessionResponse(value: unknown): SessionResponse {
+  if (!isRecord(value)) throw new SchemaError(["session response must be an object"]);
+  if (value.session_id !== undefined && typeof value.session_id !== "string") {
+    throw new SchemaError(["session_id must be a string"]);
+  }
+  return { session_id: value.session_id };
+}
+
+export function parseChatResponse(value: unknown): ChatResponse {
+  if (!isRecord(value)) throw new SchemaError(["chat response must be an object"]);
+  if (value.response !== undefined && value.response !== null && typeof value.response !== "string") {
+    throw new SchemaError(["response must be a string"]);
+  }
+  return { response: optionalString(value.response), metadata: value.metadata ?? undefined };
+}
+
+export function parseDeepDiveResponse(value: unknown): DeepDiveResponse {
+  if (!isRecord(value)) throw new SchemaError(["deep dive response must be an object"]);
+  return { result: optionalString(value.result), insights: stringArray(value.insights) };
+}
+
+export function parseInsights(value: unknown): string[] {
+  if (!isRecord(value)) throw new SchemaError(["insights response must be an object"]);
+  return stringArray(value.insights);
+}
+
+export function parseSuggestion(value: unknown): string {
+  if (!isRecord(value)) throw new SchemaError(["suggestion response must be an object"]);
+  return optionalString(value.suggestion) ?? "";
+}
+
+/**
+ * History is informational - malformed entries are dropped rather than failing the opportunity
+ */
+function parseStatusHistory(value: unknown): StatusTransition[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (entry): entry is StatusTransition =>
+      isRecord(entry) &&
+      typeof entry.from === "string" &&
+      typeof entry.to === "string" &&
+      typeof entry.rationale === "string" &&
+      typeof entry.at === "string"
+  );
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+/**
+ * The API sends CSIO scores as a 0-1 fraction - anything else is a bad payload, not a different scale
+ */
+function isScore(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,231 @@
+/**
+ * Larry Session Store
+ *
+ * Persists Larry conversations in the browser so a reload resumes
+ * the same transcript, session panel and backend session_id.
+ * - localStorage persistence keyed by session_id
+ * - Session index for the sidebar (titles, clarity, archive state)
+ * - Pointer to the most recently active session
+ * - Optional backend sync hook for mirroring saved sessions
+ */
+
+const SESSION_KEY_PREFIX = "mindrian:larry-session:";
+const SESSION_INDEX_KEY = "mindrian:larry-sessions";
+const CURRENT_SESSION_KEY = "mindrian:larry-current-session";
+const SYNC_DELAY_MS = 2000;
+
+export interface PersistedSession<TMessage, TData> {
+  sessionId: string;
+  messages: TMessage[];
+  sessionData: TData;
+  updatedAt: string;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  title: string;
+  customTitle?: string; // Set when the user renames the session
+  clarity: number;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionSummaryUpdate {
+  title: string;
+  clarity: number;
+}
+
+export type SessionSyncHandler = (session: PersistedSession<unknown, unknown>) => Promise<void>;
+
+let syncHandler: SessionSyncHandler | null = null;
+const pendingSyncs = new Map<string, ReturnType<typeof setTimeout>>();
+
+const EMPTY_INDEX: SessionSummary[] = [];
+let indexSnapshot: SessionSummary[] | null = null;
+const indexListeners = new Set<() => void>();
+
+function getStorage(): Storage | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+// Dates are stored as ISO strings - revive message and idea timestamps
+function reviveDates(key: string, value: unknown) {
+  if (key === "timestamp" && typeof value === "string") {
+    return new Date(value);
+  }
+  return value;
+}
+
+/**
+ * Load a stored session by id
+ */
+export function loadSession<TMessage, TData>(sessionId: string): PersistedSession<TMessage, TData> | null {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  const raw = storage.getItem(`${SESSION_KEY_PREFIX}${sessionId}`);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw, reviveDates) as PersistedSession<TMessage, TData>;
+  } catch (error) {
+    console.error("Failed to read stored session:", error);
+    return null;
+  }
+}
+
+/**
+ * Load the session that was active before the last reload
+ */
+export function loadCurrentSession<TMessage, TData>(): PersistedSession<TMessage, TData> | null {
+  const sessionId = getStorage()?.getItem(CURRENT_SESSION_KEY);
+  return sessionId ? loadSession<TMessage, TData>(sessionId) : null;
+}
+
+/**
+ * Save a session, update its sidebar entry and mark it as the current one
+ */
+export function saveSession<TMessage, TData>(
+  session: Omit<PersistedSession<TMessage, TData>, "updatedAt">,
+  summary: SessionSummaryUpdate
+): void {
+  const storage = getStorage();
+  if (!storage || !session.sessionId) return;
+
+  const stored: PersistedSession<TMessage, TData> = {
+    ...session,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    storage.setItem(`${SESSION_KEY_PREFIX}${session.sessionId}`, JSON.stringify(stored));
+    storage.setItem(CURRENT_SESSION_KEY, session.sessionId);
+  } catch (error) {
+    // Quota exceeded or storage disabled - the conversation still works in memory
+    console.error("Failed to persist session:", error);
+    return;
+  }
+
+  const existing = readIndex().find((s) => s.sessionId === session.sessionId);
+  upsertSummary({
+    sessionId: session.sessionId,
+    title: summary.title,
+    customTitle: existing?.customTitle,
+    clarity: summary.clarity,
+    archived: existing?.archived ?? false,
+    createdAt: existing?.createdAt ?? stored.updatedAt,
+    updatedAt: stored.updatedAt,
+  });
+
+  scheduleSync(stored);
+}
+
+/**
+ * All stored sessions, most recently updated first
+ */
+export function listSessions(): SessionSummary[] {
+  if (indexSnapshot === null) {
+    indexSnapshot = readIndex().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+  return indexSnapshot;
+}
+
+/**
+ * Server snapshot for useSyncExternalStore - no sessions during SSR
+ */
+export function listSessionsOnServer(): SessionSummary[] {
+  return EMPTY_INDEX;
+}
+
+/**
+ * Subscribe to session index changes (create, rename, archive, delete)
+ */
+export function subscribeSessions(listener: () => void): () => void {
+  indexListeners.add(listener);
+  return () => {
+    indexListeners.delete(listener);
+  };
+}
+
+export function renameSession(sessionId: string, title: string): void {
+  const existing = readIndex().find((s) => s.sessionId === sessionId);
+  if (!existing) return;
+  upsertSummary({ ...existing, customTitle: title.trim() || undefined });
+}
+
+export function setSessionArchived(sessionId: string, archived: boolean): void {
+  const existing = readIndex().find((s) => s.sessionId === sessionId);
+  if (!existing) return;
+  upsertSummary({ ...existing, archived });
+}
+
+/**
+ * Remove a session transcript and its sidebar entry
+ */
+export function deleteSession(sessionId: string): void {
+  const storage = getStorage();
+  if (!storage) return;
+
+  storage.removeItem(`${SESSION_KEY_PREFIX}${sessionId}`);
+  if (storage.getItem(CURRENT_SESSION_KEY) === sessionId) {
+    storage.removeItem(CURRENT_SESSION_KEY);
+  }
+  writeIndex(readIndex().filter((s) => s.sessionId !== sessionId));
+}
+
+function readIndex(): SessionSummary[] {
+  const raw = getStorage()?.getItem(SESSION_INDEX_KEY);
+  if (!raw) return [];
+
+  try {
+    return JSON.parse(raw) as SessionSummary[];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(index: SessionSummary[]) {
+  try {
+    getStorage()?.setItem(SESSION_INDEX_KEY, JSON.stringify(index));
+  } catch (error) {
+    console.error("Failed to persist session index:", error);
+  }
+  indexSnapshot = null;
+  indexListeners.forEach((listener) => listener());
+}
+
+function upsertSummary(summary: SessionSummary) {
+  const index = readIndex().filter((s) => s.sessionId !== summary.sessionId);
+  writeIndex([summary, ...index]);
+}
+
+/**
+ * Register a handler that mirrors saved sessions to the backend
+ * Calls are debounced per session; pass null to disable syncing
+ */
+export function registerSessionSync(handler: SessionSyncHandler | null): void {
+  syncHandler = handler;
+}
+
+function scheduleSync(session: PersistedSession<unknown, unknown>) {
+  if (!syncHandler) return;
+
+  const pending = pendingSyncs.get(session.sessionId);
+  if (pending) clearTimeout(pending);
+
+  pendingSyncs.set(
+    session.sessionId,
+    setTimeout(() => {
+      pendingSyncs.delete(session.sessionId);
+      syncHandler?.(session).catch((error) => {
+        console.error("Session sync failed:", error);
+      });
+    }, SYNC_DELAY_MS)
+  );
+}